@@ -1,46 +1,129 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { 
-  Layer, PosterConfig, SlicingMode, PaperOrientation, Unit 
+  CustomFont, Layer, PosterConfig, SlicingMode, PaperOrientation, Unit, ImageEncoding, ShapeKind, PaperSize, PrinterProfile
 } from './types';
-import { PAPER_SIZES } from './constants';
+import {
+  BORDERLESS_PAPER_IDS, DEFAULT_CONFIG, DEFAULT_PAPER_ID, DPI_PRESETS, MAX_CANVAS_AREA, PAPER_SIZES
+} from './constants';
 import { CanvasWorkspace } from './components/CanvasWorkspace';
 import { LayerControls } from './components/LayerControls';
-import { generateTiledPDF } from './utils/pdfGenerator';
+import { generateTiledPDF, getOverlayRunCount } from './utils/pdfGenerator';
+import { getRenderEstimate, getTileLayout } from './utils/layout';
+import { downloadProject, readProjectFile, PROJECT_FILE_EXTENSION, ProjectData } from './utils/projectFile';
+import {
+  deleteProjectSnapshot, getLastSessionId, listRecentProjects, loadProjectSnapshot,
+  RecentProject, saveProjectSnapshot, setLastSessionId
+} from './utils/projectStore';
+import { RecentProjects } from './components/RecentProjects';
+import { useHistory } from './utils/useHistory';
+import { applyStackAction, moveLayerTo, StackAction } from './utils/layerOrder';
+import { findSeamIssues, SeamIssue } from './utils/seams';
+import { SeamWarnings } from './components/SeamWarnings';
+import { alignLayers, Alignment, AlignReference, distributeLayers } from './utils/selection';
+import { AlignControls } from './components/AlignControls';
+import { BackgroundControls } from './components/BackgroundControls';
+import { hasRoomForMarginAids } from './utils/assemblyAids';
+import { CustomPaperForm, PrinterProfileForm } from './components/PrintSetupForms';
+import { LayoutOptimizer } from './components/LayoutOptimizer';
+import { loadCustomPapers, loadPrinterProfiles, saveCustomPapers, savePrinterProfiles } from './utils/printSetup';
+import { loadFonts, readFontFile, unregisterFont } from './utils/fonts';
+import { DEFAULT_SHAPE_STYLES } from './utils/shapes';
 import { 
   Download, Plus, Settings, Image as ImageIcon, Type, 
-  Minus, Scissors, Grid, Layers, Layout, Ruler, Info, X, BookOpen
+  Minus, Scissors, Grid, Layers, Layout, Ruler, Info, X, BookOpen, FolderOpen, Save, Clock,
+  Undo2, Redo2, GripVertical, Shapes
 } from 'lucide-react';
 
-const DEFAULT_PAPER_ID = 'letter';
 const DEFAULT_PAPER = PAPER_SIZES.find(p => p.id === DEFAULT_PAPER_ID) || PAPER_SIZES[0];
+const DEFAULT_PROJECT_NAME = 'Untitled poster';
+const AUTOSAVE_DELAY = 1000; // ms after the last edit
+const HISTORY_LIMIT = 50;
 
 const App: React.FC = () => {
   // State
   const [layers, setLayers] = useState<Layer[]>([]);
-  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
   const [zoom, setZoom] = useState(0.5);
   const [activeTab, setActiveTab] = useState<'settings' | 'layers'>('settings');
   const [isExporting, setIsExporting] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
+  const [draggedLayerId, setDraggedLayerId] = useState<string | null>(null);
 
-  const [config, setConfig] = useState<PosterConfig>({
-    mode: SlicingMode.GRID,
-    unit: Unit.INCH,
-    targetWidth: 36, // 3ft in inches
-    targetHeight: 48, // 4ft in inches
-    gridRows: 3,
-    gridCols: 3,
-    paperId: DEFAULT_PAPER.id,
-    orientation: PaperOrientation.PORTRAIT,
-    margin: 0.5, // 0.5 inch
-    overlap: 0.25, // 0.25 inch
-    showCutLines: true,
-    cutLineStyle: 'dashed',
-    showPageNumbers: true
-  });
-
-  const selectedPaper = PAPER_SIZES.find(p => p.id === config.paperId) || DEFAULT_PAPER;
+  const [config, setConfig] = useState<PosterConfig>(DEFAULT_CONFIG);
+  // Uploaded fonts, saved with the project
+  const [fonts, setFonts] = useState<CustomFont[]>([]);
+  // Custom sheets and printer profiles are kept in this browser for every project
+  const [customPapers, setCustomPapers] = useState<PaperSize[]>(loadCustomPapers);
+  const [printers, setPrinters] = useState<PrinterProfile[]>(loadPrinterProfiles);
+  const [editingSetup, setEditingSetup] = useState<'paper' | 'printer' | null>(null);
+
+  // Autosave / Recent Projects
+  const [projectId, setProjectId] = useState<string>(() => crypto.randomUUID());
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME);
+  const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
+  const [restoreCandidate, setRestoreCandidate] = useState<RecentProject | null>(null);
+  // Set when the last autosave failed (e.g. browser storage is full), so crash recovery is off
+  const [autosaveFailed, setAutosaveFailed] = useState(false);
+  const [showRecent, setShowRecent] = useState(false);
+  const [showSeamWarnings, setShowSeamWarnings] = useState(false);
+  // Last state written to storage, so untouched projects aren't saved
+  const savedStateRef = useRef<ProjectData>({ config, layers, fonts, papers: [], printers: [] });
+
+  const allPapers = useMemo(() => [...PAPER_SIZES, ...customPapers], [customPapers]);
+  const selectedPaper = allPapers.find(p => p.id === config.paperId) || DEFAULT_PAPER;
+  const selectedPrinter = printers.find(p => p.id === config.printerId) || null;
+  const layout = useMemo(
+    () => getTileLayout(config, selectedPaper, selectedPrinter),
+    [config, selectedPaper, selectedPrinter]
+  );
+  const overlayRuns = useMemo(() => getOverlayRunCount(layers, fonts), [layers, fonts]);
+  const renderEstimate = getRenderEstimate(config, layout, overlayRuns);
+  const selectedLayers = layers.filter(l => selectedLayerIds.includes(l.id));
+  const seamIssues = useMemo(() => findSeamIssues(layers, layout, config.unit), [layers, layout, config.unit]);
+
+  // Undo / Redo
+  const projectState = useMemo<ProjectData>(() => ({
+    config,
+    layers,
+    fonts,
+    papers: selectedPaper.category === 'Custom' ? [selectedPaper] : [],
+    printers: selectedPrinter ? [selectedPrinter] : [],
+  }), [config, layers, fonts, selectedPaper, selectedPrinter]);
+  const restoreSnapshot = useCallback((snapshot: ProjectData) => {
+    setConfig(snapshot.config);
+    setLayers(snapshot.layers);
+    setFonts(snapshot.fonts);
+    setSelectedLayerIds(ids => ids.filter(id => snapshot.layers.some(l => l.id === id)));
+  }, []);
+  const history = useHistory(projectState, restoreSnapshot, HISTORY_LIMIT);
+  const { undo, redo, beginGesture, endGesture } = history;
+
+  const handleSidebarPointerDown = (e: React.PointerEvent) => {
+    if (!(e.target instanceof HTMLInputElement) || e.target.type !== 'range') return;
+    beginGesture();
+    window.addEventListener('pointerup', endGesture, { once: true });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields to their own native undo
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   // Helpers
   const formatPaperDim = (mm: number, unit: Unit) => {
@@ -48,6 +131,11 @@ const App: React.FC = () => {
     return (mm / 25.4).toFixed(2);
   };
 
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
   const toggleUnit = () => {
     const newUnit = config.unit === Unit.MM ? Unit.INCH : Unit.MM;
     const factor = newUnit === Unit.INCH ? 1/25.4 : 25.4;
@@ -59,11 +147,12 @@ const App: React.FC = () => {
         targetHeight: parseFloat((prev.targetHeight * factor).toFixed(2)),
         margin: parseFloat((prev.margin * factor).toFixed(2)),
         overlap: parseFloat((prev.overlap * factor).toFixed(2)),
+        bleed: parseFloat((prev.bleed * factor).toFixed(2)),
     }));
   };
 
   // Handlers
-  const handleAddLayer = (type: 'image' | 'text', content: string) => {
+  const handleAddLayer = (type: Layer['type'], content: string) => {
     const newLayer: Layer = {
       id: crypto.randomUUID(),
       type,
@@ -71,7 +160,7 @@ const App: React.FC = () => {
       x: 0.25,
       y: 0.25,
       width: type === 'image' ? 0.5 : 0.5,
-      height: type === 'image' ? 0.5 : 0.2, // Text height is auto visually, but used for bounding
+      height: type === 'image' ? 0.5 : 0.2, // Wrapped text sizes to its lines; fitted text fills this height
       rotation: 0,
       opacity: 1,
       style: type === 'text' ? {
@@ -79,10 +168,11 @@ const App: React.FC = () => {
         fontSize: 1,
         fontFamily: 'Inter',
         fontWeight: 'bold'
-      } : undefined
+      } : undefined,
+      shape: type === 'shape' ? DEFAULT_SHAPE_STYLES[ShapeKind.RECT] : undefined
     };
     setLayers(prev => [...prev, newLayer]);
-    setSelectedLayerId(newLayer.id);
+    setSelectedLayerIds([newLayer.id]);
     setActiveTab('layers');
   };
 
@@ -99,27 +189,243 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSaveCustomPaper = (paper: PaperSize) => {
+    const next = [...customPapers, paper];
+    setCustomPapers(next);
+    saveCustomPapers(next);
+    setConfig(c => ({ ...c, paperId: paper.id }));
+    setEditingSetup(null);
+  };
+
+  const handleDeleteCustomPaper = (id: string) => {
+    const next = customPapers.filter(p => p.id !== id);
+    setCustomPapers(next);
+    saveCustomPapers(next);
+    setConfig(c => c.paperId === id ? { ...c, paperId: DEFAULT_PAPER_ID } : c);
+  };
+
+  const handleSavePrinter = (printer: PrinterProfile) => {
+    const next = [...printers, printer];
+    setPrinters(next);
+    savePrinterProfiles(next);
+    setConfig(c => ({ ...c, printerId: printer.id }));
+    setEditingSetup(null);
+  };
+
+  const handleDeletePrinter = (id: string) => {
+    const next = printers.filter(p => p.id !== id);
+    setPrinters(next);
+    savePrinterProfiles(next);
+    setConfig(c => c.printerId === id ? { ...c, printerId: '' } : c);
+  };
+
   const updateLayer = useCallback((id: string, updates: Partial<Layer>) => {
     setLayers(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
   }, []);
 
+  const updateLayers = useCallback((updates: Record<string, Partial<Layer>>) => {
+    setLayers(prev => prev.map(l => updates[l.id] ? { ...l, ...updates[l.id] } : l));
+  }, []);
+
   const removeLayer = (id: string) => {
     setLayers(prev => prev.filter(l => l.id !== id));
-    if (selectedLayerId === id) setSelectedLayerId(null);
+    setSelectedLayerIds(ids => ids.filter(i => i !== id));
+  };
+
+  const removeSelectedLayers = () => {
+    setLayers(prev => prev.filter(l => !selectedLayerIds.includes(l.id)));
+    setSelectedLayerIds([]);
+  };
+
+  // Grouped layers are selected and moved as one
+  const handleGroup = () => {
+    const groupId = crypto.randomUUID();
+    updateLayers(Object.fromEntries(selectedLayerIds.map(id => [id, { groupId }])));
+  };
+
+  const handleUngroup = () => {
+    updateLayers(Object.fromEntries(selectedLayerIds.map(id => [id, { groupId: undefined }])));
+  };
+
+  const handleAlign = (alignment: Alignment, reference: AlignReference) => {
+    updateLayers(alignLayers(layers, selectedLayerIds, alignment, reference, layout));
+  };
+
+  const handleDistribute = (axis: 'horizontal' | 'vertical', reference: AlignReference) => {
+    updateLayers(distributeLayers(layers, selectedLayerIds, axis, reference, layout));
+  };
+
+  const changeStackOrder = useCallback((id: string, action: StackAction) => {
+    setLayers(prev => applyStackAction(prev, id, action));
+  }, []);
+
+  const handleLayerDrop = (targetId: string) => {
+    if (!draggedLayerId || draggedLayerId === targetId) return;
+    setLayers(prev => moveLayerTo(prev, draggedLayerId, prev.findIndex(l => l.id === targetId)));
+    setDraggedLayerId(null);
+  };
+
+  // Offer the session that was open before a reload or crash
+  useEffect(() => {
+    const lastId = getLastSessionId();
+    listRecentProjects()
+      .then(projects => {
+        setRecentProjects(projects);
+        setRestoreCandidate(projects.find(p => p.id === lastId && p.layerCount > 0) || null);
+      })
+      .catch(console.error);
+  }, []);
+
+  const saveSnapshot = useCallback(async (id: string, name: string, project: ProjectData) => {
+    savedStateRef.current = project;
+    try {
+      await saveProjectSnapshot(id, name, project);
+    } catch (error) {
+      setAutosaveFailed(true);
+      throw error;
+    }
+    setAutosaveFailed(false);
+    setLastSessionId(id);
+    setRecentProjects(await listRecentProjects());
+  }, []);
+
+  useEffect(() => {
+    const saved = savedStateRef.current;
+    if (saved.config === config && saved.layers === layers && saved.fonts === fonts) return;
+
+    const timer = setTimeout(() => {
+      saveSnapshot(projectId, projectName, projectState).catch(console.error);
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [config, layers, fonts, projectState, projectId, projectName, saveSnapshot]);
+
+  // Make project fonts available to the preview as soon as they are added or opened
+  useEffect(() => {
+    loadFonts(fonts).catch(console.error);
+  }, [fonts]);
+
+  // Replaces the editor state without marking it as an unsaved edit
+  const applyProject = (id: string, name: string, project: ProjectData) => {
+    savedStateRef.current = project;
+    history.reset(project);
+    setProjectId(id);
+    setProjectName(name);
+    setConfig(project.config);
+    setLayers(project.layers);
+    setFonts(project.fonts);
+    setSelectedLayerIds([]);
+
+    // Keep the project's custom paper and printer if this browser doesn't have them yet
+    const newPapers = project.papers.filter(paper => !customPapers.some(p => p.id === paper.id));
+    if (newPapers.length > 0) {
+      const next = [...customPapers, ...newPapers];
+      setCustomPapers(next);
+      saveCustomPapers(next);
+    }
+    const newPrinters = project.printers.filter(printer => !printers.some(p => p.id === printer.id));
+    if (newPrinters.length > 0) {
+      const next = [...printers, ...newPrinters];
+      setPrinters(next);
+      savePrinterProfiles(next);
+    }
+  };
+
+  const handleOpenRecent = async (id: string) => {
+    try {
+      // Flush pending edits to the current project before switching away
+      const saved = savedStateRef.current;
+      if (saved.config !== config || saved.layers !== layers || saved.fonts !== fonts) {
+        await saveSnapshot(projectId, projectName, projectState);
+      }
+      const project = await loadProjectSnapshot(id);
+      if (!project) throw new Error("That project is no longer in browser storage.");
+      const name = recentProjects.find(p => p.id === id)?.name || DEFAULT_PROJECT_NAME;
+      applyProject(id, name, project);
+      setLastSessionId(id);
+      setShowRecent(false);
+      setRestoreCandidate(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not open the saved project.");
+      console.error(error);
+    }
+  };
+
+  const handleDeleteRecent = async (id: string) => {
+    try {
+      await deleteProjectSnapshot(id);
+      setRecentProjects(await listRecentProjects());
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleSaveProject = () => {
+    downloadProject(projectState, projectName);
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires onChange
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const project = await readProjectFile(file);
+      // An opened file starts a new browser-side project with its own autosave slot
+      const id = crypto.randomUUID();
+      const name = file.name.replace(/\.[^.]+$/, '');
+      applyProject(id, name, project);
+      saveSnapshot(id, name, project).catch(console.error);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not open the project file.");
+      console.error(error);
+    }
+  };
+
+  // Adds an uploaded font to the project and applies it to the text layer
+  const handleFontUpload = async (layerId: string, file: File) => {
+    try {
+      const font = await readFontFile(file);
+      // Uploading a family again replaces the old file, so the preview, PDF and saved project agree
+      const existing = fonts.find(f => f.family === font.family);
+      if (existing) unregisterFont(existing);
+      setFonts(prev => [...prev.filter(f => f.family !== font.family), font]);
+      const layer = layers.find(l => l.id === layerId);
+      if (layer) updateLayer(layerId, { style: { ...layer.style, fontFamily: font.family } });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not load the font.");
+      console.error(error);
+    }
   };
 
   const handleExport = async () => {
+    setShowSeamWarnings(false);
     setIsExporting(true);
     try {
-      await generateTiledPDF(config, layers, selectedPaper);
+      await generateTiledPDF(config, layers, selectedPaper, fonts, selectedPrinter);
     } catch (error) {
-      alert("Failed to generate PDF. Please ensure all images are loaded.");
+      alert(error instanceof Error ? error.message : "Failed to generate PDF. Please ensure all images are loaded.");
       console.error(error);
     } finally {
       setIsExporting(false);
     }
   };
 
+  // Warn about anything split between sheets before exporting
+  const handleExportClick = () => {
+    if (seamIssues.length > 0) {
+      setShowSeamWarnings(true);
+    } else {
+      handleExport();
+    }
+  };
+
+  const handleNudgeOffSeam = (issue: SeamIssue) => {
+    const layer = layers.find(l => l.id === issue.layerId);
+    if (!layer || !issue.nudge) return;
+    updateLayer(layer.id, { x: layer.x + issue.nudge.x, y: layer.y + issue.nudge.y });
+  };
+
   return (
     <div className="h-screen flex flex-col bg-slate-50 overflow-hidden">
       {/* Header */}
@@ -147,6 +453,44 @@ const App: React.FC = () => {
                 About
              </button>
              <div className="h-6 w-px bg-slate-200 mx-2"></div>
+             <label className="cursor-pointer flex items-center gap-1.5 text-slate-600 hover:text-brand-600 px-3 py-1.5 rounded-lg hover:bg-slate-50 transition-colors text-sm font-medium">
+                <input type="file" accept={`${PROJECT_FILE_EXTENSION},application/json`} className="hidden" onChange={handleOpenProject} />
+                <FolderOpen size={18} />
+                Open
+             </label>
+             <button 
+                onClick={() => setShowRecent(true)}
+                className="flex items-center gap-1.5 text-slate-600 hover:text-brand-600 px-3 py-1.5 rounded-lg hover:bg-slate-50 transition-colors text-sm font-medium"
+             >
+                <Clock size={18} />
+                Recent
+             </button>
+             <button 
+                onClick={handleSaveProject}
+                className="flex items-center gap-1.5 text-slate-600 hover:text-brand-600 px-3 py-1.5 rounded-lg hover:bg-slate-50 transition-colors text-sm font-medium"
+             >
+                <Save size={18} />
+                Save
+             </button>
+             <div className="h-6 w-px bg-slate-200 mx-2"></div>
+             <div className="flex items-center bg-slate-100 rounded-lg p-1">
+                <button 
+                    onClick={undo}
+                    disabled={!history.canUndo}
+                    title="Undo (Ctrl+Z)"
+                    className="p-1.5 hover:bg-white rounded-md text-slate-600 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                    <Undo2 size={16} />
+                </button>
+                <button 
+                    onClick={redo}
+                    disabled={!history.canRedo}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="p-1.5 hover:bg-white rounded-md text-slate-600 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                    <Redo2 size={16} />
+                </button>
+             </div>
              <div className="flex items-center bg-slate-100 rounded-lg p-1">
                 <button 
                     onClick={() => setZoom(Math.max(0.1, zoom - 0.1))}
@@ -164,7 +508,7 @@ const App: React.FC = () => {
              </div>
              
              <button 
-                onClick={handleExport}
+                onClick={handleExportClick}
                 disabled={isExporting}
                 className="bg-brand-600 hover:bg-brand-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 font-medium shadow-sm transition-all active:scale-95 disabled:opacity-50"
              >
@@ -178,6 +522,43 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {/* Restore Banner */}
+      {restoreCandidate && (
+        <div className="bg-brand-50 border-b border-brand-100 px-6 py-2 flex items-center justify-between text-sm z-20">
+            <span className="text-brand-700">
+                Restore your last session <strong>{restoreCandidate.name}</strong> from {new Date(restoreCandidate.updatedAt).toLocaleString()}?
+            </span>
+            <div className="flex items-center gap-2">
+                <button 
+                    onClick={() => handleOpenRecent(restoreCandidate.id)}
+                    className="bg-brand-600 hover:bg-brand-700 text-white px-3 py-1 rounded-md font-medium"
+                >
+                    Restore
+                </button>
+                <button 
+                    onClick={() => setRestoreCandidate(null)}
+                    className="text-slate-500 hover:text-slate-700 px-3 py-1 rounded-md hover:bg-white"
+                >
+                    Dismiss
+                </button>
+            </div>
+        </div>
+      )}
+
+      {autosaveFailed && (
+        <div className="bg-amber-50 border-b border-amber-100 px-6 py-2 flex items-center justify-between text-sm z-20">
+            <span className="text-amber-800">
+                Autosave failed, so this project can't be recovered after a reload or crash. Browser storage may be full.
+            </span>
+            <button 
+                onClick={handleSaveProject}
+                className="bg-amber-600 hover:bg-amber-700 text-white px-3 py-1 rounded-md font-medium"
+            >
+                Save to File
+            </button>
+        </div>
+      )}
+
       <main className="flex-1 flex overflow-hidden">
         {/* Left Toolbar */}
         <aside className="w-16 bg-white border-r border-slate-200 flex flex-col items-center py-4 gap-4 z-20">
@@ -193,6 +574,13 @@ const App: React.FC = () => {
                 <Type size={24} />
                 <span className="text-[10px] font-medium">Text</span>
             </button>
+            <button 
+                onClick={() => handleAddLayer('shape', '')}
+                className="group relative flex flex-col items-center gap-1 p-2 rounded-xl hover:bg-slate-100 text-slate-500 hover:text-brand-600 transition-all"
+            >
+                <Shapes size={24} />
+                <span className="text-[10px] font-medium">Shape</span>
+            </button>
         </aside>
 
         {/* Canvas Area */}
@@ -200,14 +588,24 @@ const App: React.FC = () => {
             layers={layers}
             config={config}
             paperSize={selectedPaper}
-            selectedLayerId={selectedLayerId}
-            onLayerSelect={setSelectedLayerId}
+            printer={selectedPrinter}
+            selectedLayerIds={selectedLayerIds}
+            onSelectionChange={setSelectedLayerIds}
             onLayerUpdate={updateLayer}
+            onLayersUpdate={updateLayers}
+            onInteractionStart={beginGesture}
+            onInteractionEnd={endGesture}
+            seamIssueLayerIds={seamIssues.map(issue => issue.layerId)}
             zoom={zoom}
         />
 
-        {/* Right Sidebar */}
-        <aside className="w-80 bg-white border-l border-slate-200 flex flex-col z-20 shadow-xl shadow-slate-200/50">
+        {/* Right Sidebar: slider drags and runs of edits to one field are single undo steps */}
+        <aside
+            className="w-80 bg-white border-l border-slate-200 flex flex-col z-20 shadow-xl shadow-slate-200/50"
+            onInputCapture={(e) => history.setEditingField(e.target)}
+            onBlurCapture={() => history.setEditingField(null)}
+            onPointerDownCapture={handleSidebarPointerDown}
+        >
             <div className="flex border-b border-slate-200">
                 <button 
                     onClick={() => setActiveTab('settings')}
@@ -305,8 +703,21 @@ const App: React.FC = () => {
                                     </div>
                                 </div>
                             )}
+                            {config.mode === SlicingMode.SIZE && (
+                                <LayoutOptimizer
+                                    config={config}
+                                    papers={allPapers}
+                                    printer={selectedPrinter}
+                                    onApply={(option) => setConfig(c => ({ ...c, paperId: option.paper.id, orientation: option.orientation }))}
+                                />
+                            )}
                         </div>
 
+                        <BackgroundControls
+                            background={config.background}
+                            onChange={(updates) => setConfig(c => ({ ...c, background: { ...c.background, ...updates } }))}
+                        />
+
                         {/* Paper Settings */}
                         <div className="space-y-3">
                             <h3 className="text-sm font-semibold text-slate-900">Paper Settings</h3>
@@ -332,7 +743,75 @@ const App: React.FC = () => {
                                             <option key={p.id} value={p.id}>{p.name} ({formatPaperDim(p.width, config.unit)} x {formatPaperDim(p.height, config.unit)} {config.unit})</option>
                                         ))}
                                     </optgroup>
+                                    {customPapers.length > 0 && (
+                                        <optgroup label="Custom">
+                                            {customPapers.map(p => (
+                                                <option key={p.id} value={p.id}>{p.name} ({formatPaperDim(p.width, config.unit)} x {formatPaperDim(p.height, config.unit)} {config.unit})</option>
+                                            ))}
+                                        </optgroup>
+                                    )}
+                                </select>
+                                {selectedPaper.id !== config.paperId && (
+                                    <p className="text-[11px] text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 mt-1">
+                                        This project's paper size isn't saved in this browser, so {selectedPaper.name} is used instead.
+                                    </p>
+                                )}
+                                {editingSetup === 'paper' ? (
+                                    <div className="mt-2">
+                                        <CustomPaperForm unit={config.unit} onSave={handleSaveCustomPaper} onCancel={() => setEditingSetup(null)} />
+                                    </div>
+                                ) : (
+                                    <div className="flex justify-between mt-1">
+                                        <button onClick={() => setEditingSetup('paper')} className="text-[10px] text-brand-600 hover:text-brand-700">
+                                            + Custom size
+                                        </button>
+                                        {selectedPaper.category === 'Custom' && (
+                                            <button onClick={() => handleDeleteCustomPaper(selectedPaper.id)} className="text-[10px] text-red-500 hover:text-red-600">
+                                                Delete {selectedPaper.name}
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                            <div>
+                                <label className="text-xs font-medium text-slate-500">Printer</label>
+                                <select 
+                                    value={selectedPrinter?.id || ''}
+                                    onChange={(e) => setConfig(c => ({...c, printerId: e.target.value}))}
+                                    className="w-full mt-1 border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white"
+                                >
+                                    <option value="">Any printer (same margin on every edge)</option>
+                                    {printers.map(p => (
+                                        <option key={p.id} value={p.id}>{p.name}</option>
+                                    ))}
                                 </select>
+                                {config.printerId !== '' && !selectedPrinter && (
+                                    <p className="text-[11px] text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 mt-1">
+                                        This project's printer profile isn't saved in this browser, so the same margin is used on every edge.
+                                    </p>
+                                )}
+                                {editingSetup === 'printer' ? (
+                                    <div className="mt-2">
+                                        <PrinterProfileForm unit={config.unit} onSave={handleSavePrinter} onCancel={() => setEditingSetup(null)} />
+                                    </div>
+                                ) : (
+                                    <div className="flex justify-between mt-1">
+                                        <button onClick={() => setEditingSetup('printer')} className="text-[10px] text-brand-600 hover:text-brand-700">
+                                            + Printer profile
+                                        </button>
+                                        {selectedPrinter && (
+                                            <button onClick={() => handleDeletePrinter(selectedPrinter.id)} className="text-[10px] text-red-500 hover:text-red-600">
+                                                Delete {selectedPrinter.name}
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                {selectedPrinter && (
+                                    <p className="text-[10px] text-slate-400 mt-1">
+                                        Unprinted edges on this sheet ({config.unit}): {(['top', 'bottom', 'left', 'right'] as const)
+                                            .map(edge => `${edge} ${parseFloat(layout.margins[edge].toFixed(2))}`).join(', ')}
+                                    </p>
+                                )}
                             </div>
                             <div className="flex gap-2">
                                 <button 
@@ -349,14 +828,120 @@ const App: React.FC = () => {
                                 </button>
                             </div>
                             <div>
-                                <label className="text-xs font-medium text-slate-500">Margins ({config.unit})</label>
+                                <div className="flex justify-between items-center">
+                                    <label className="text-xs font-medium text-slate-500">Margins ({config.unit})</label>
+                                    <button
+                                        onClick={() => setConfig(c => ({...c, margin: 0, bleed: 0}))}
+                                        className="text-[10px] text-brand-600 hover:text-brand-700"
+                                        title="Print to the edge of the sheet on a borderless printer"
+                                    >
+                                        Zero margin
+                                    </button>
+                                </div>
                                 <input 
                                     type="number" min="0" step="0.1"
                                     value={config.margin}
                                     onChange={(e) => setConfig(c => ({...c, margin: Number(e.target.value)}))}
                                     className="w-full mt-1 border border-slate-300 rounded-md px-2 py-1.5 text-sm"
                                 />
+                                {config.margin <= 0 && (selectedPrinter && Object.values(selectedPrinter.margins).some(m => m > 0) ? (
+                                    <p className="text-[11px] text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 mt-1">
+                                        {selectedPrinter.name} can't print to the edge, so its unprinted edges are kept instead.
+                                    </p>
+                                ) : BORDERLESS_PAPER_IDS.includes(selectedPaper.id) ? (
+                                    <p className="text-[10px] text-slate-400 mt-1">
+                                        Turn on borderless printing in your printer settings, or the edges of each sheet will be cut off.
+                                    </p>
+                                ) : (
+                                    <p className="text-[11px] text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 mt-1">
+                                        Most printers can't print borderless on {selectedPaper.name}. The edges of each sheet will likely be left blank or cut off.
+                                    </p>
+                                ))}
+                            </div>
+                            {Math.min(...Object.values(layout.margins)) > 0 && (
+                                <div>
+                                    <label className="text-xs font-medium text-slate-500">Bleed ({config.unit})</label>
+                                    <input 
+                                        type="number" min="0" step="0.05"
+                                        value={config.bleed}
+                                        onChange={(e) => setConfig(c => ({...c, bleed: Math.max(0, Number(e.target.value))}))}
+                                        className="w-full mt-1 border border-slate-300 rounded-md px-2 py-1.5 text-sm"
+                                    />
+                                    <p className="text-[10px] text-slate-400 mt-1">
+                                        {config.bleed > layout.bleed
+                                            ? 'Bleed is limited to the margin, since it has to fit on the sheet.'
+                                            : 'Prints past the trim so a slightly-off cut leaves no white edge. Crop marks go outside it.'}
+                                    </p>
+                                </div>
+                            )}
+                            <div>
+                                <label className="text-xs font-medium text-slate-500">Overlap ({config.unit})</label>
+                                <input 
+                                    type="number" min="0" step="0.05"
+                                    value={config.overlap}
+                                    onChange={(e) => setConfig(c => ({...c, overlap: Math.max(0, Number(e.target.value))}))}
+                                    className="w-full mt-1 border border-slate-300 rounded-md px-2 py-1.5 text-sm"
+                                />
+                                <p className="text-[10px] text-slate-400 mt-1">
+                                    Each sheet repeats this strip of its neighbour so the pieces can be glued together.
+                                </p>
+                            </div>
+                        </div>
+
+                        {/* Export Quality */}
+                        <div className="space-y-3">
+                            <h3 className="text-sm font-semibold text-slate-900">Export Quality</h3>
+                            <div className="grid grid-cols-3 gap-2">
+                                {DPI_PRESETS.map(preset => (
+                                    <button 
+                                        key={preset.value}
+                                        onClick={() => setConfig(c => ({...c, dpi: preset.value}))}
+                                        className={`py-1.5 text-xs rounded border flex flex-col items-center ${config.dpi === preset.value ? 'bg-brand-50 border-brand-500 text-brand-700' : 'border-slate-200'}`}
+                                    >
+                                        <span className="font-medium">{preset.label}</span>
+                                        <span className="text-[10px] text-slate-400">{preset.value} DPI</span>
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="text-[11px] text-slate-500 bg-slate-50 p-2 rounded border border-slate-100 space-y-0.5">
+                                <p>Poster: {renderEstimate.posterPxW.toLocaleString()} x {renderEstimate.posterPxH.toLocaleString()} px</p>
+                                <p>Per sheet: {renderEstimate.tilePxW.toLocaleString()} x {renderEstimate.tilePxH.toLocaleString()} px ({formatBytes(renderEstimate.tileBytes)} while rendering)</p>
+                            </div>
+                            <div>
+                                <label className="text-xs font-medium text-slate-500">Image Encoding</label>
+                                <select 
+                                    value={config.imageEncoding}
+                                    onChange={(e) => setConfig(c => ({...c, imageEncoding: e.target.value as ImageEncoding}))}
+                                    className="w-full mt-1 border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white"
+                                >
+                                    <option value={ImageEncoding.AUTO}>Automatic (per sheet)</option>
+                                    <option value={ImageEncoding.JPEG}>JPEG (smaller)</option>
+                                    <option value={ImageEncoding.PNG}>PNG (lossless)</option>
+                                </select>
                             </div>
+                            {config.imageEncoding !== ImageEncoding.PNG && (
+                                <div>
+                                    <label className="text-xs font-medium text-slate-500">JPEG Quality ({Math.round(config.jpegQuality * 100)}%)</label>
+                                    <input 
+                                        type="range" min="0.5" max="1" step="0.01"
+                                        value={config.jpegQuality}
+                                        onChange={(e) => setConfig(c => ({...c, jpegQuality: parseFloat(e.target.value)}))}
+                                        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                                    />
+                                </div>
+                            )}
+                            <p className="text-[11px] text-slate-500">
+                                Estimated PDF size: <span className="font-medium text-slate-700">up to ~{formatBytes(renderEstimate.pdfBytes)}</span>
+                            </p>
+                            {renderEstimate.exceedsLimit ? (
+                                <p className="text-[11px] text-red-600 bg-red-50 p-2 rounded border border-red-100">
+                                    Each sheet is larger than the browser can render at this DPI. Choose a lower quality.
+                                </p>
+                            ) : renderEstimate.tilePxW * renderEstimate.tilePxH > MAX_CANVAS_AREA * 0.75 && (
+                                <p className="text-[11px] text-amber-700 bg-amber-50 p-2 rounded border border-amber-100">
+                                    Close to the browser's canvas limit. Export may fail on phones and tablets.
+                                </p>
+                            )}
                         </div>
 
                         {/* Export Options */}
@@ -393,32 +978,99 @@ const App: React.FC = () => {
                                     className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
                                 />
                             </div>
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs font-medium text-slate-500">Assembly Map Page</label>
+                                <input 
+                                    type="checkbox"
+                                    checked={config.showAssemblyMap}
+                                    onChange={(e) => setConfig(c => ({...c, showAssemblyMap: e.target.checked}))}
+                                    className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                                />
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs font-medium text-slate-500">Glue Tabs</label>
+                                <input 
+                                    type="checkbox"
+                                    checked={config.showGlueTabs}
+                                    onChange={(e) => setConfig(c => ({...c, showGlueTabs: e.target.checked}))}
+                                    className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                                />
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs font-medium text-slate-500">Registration Marks</label>
+                                <input 
+                                    type="checkbox"
+                                    checked={config.showRegistrationMarks}
+                                    onChange={(e) => setConfig(c => ({...c, showRegistrationMarks: e.target.checked}))}
+                                    className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                                />
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs font-medium text-slate-500">Edge Labels</label>
+                                <input 
+                                    type="checkbox"
+                                    checked={config.showEdgeLabels}
+                                    onChange={(e) => setConfig(c => ({...c, showEdgeLabels: e.target.checked}))}
+                                    className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                                />
+                            </div>
+                            {(config.showEdgeLabels || (config.showGlueTabs && config.overlap <= 0)) && !hasRoomForMarginAids(layout, config.unit) && (
+                                <p className="text-[11px] text-amber-700 bg-amber-50 p-2 rounded border border-amber-100">
+                                    {config.overlap > 0 ? 'Edge labels need' : 'Edge labels and glue tabs need'} at least {config.unit === Unit.INCH ? '0.12 in' : '3 mm'} of margin outside the bleed, so they are left off edges with less.
+                                </p>
+                            )}
                         </div>
                     </>
                 ) : (
                     <div className="space-y-4">
-                        {selectedLayerId ? (
+                        {selectedLayers.length === 1 && (
                             <LayerControls 
-                                layer={layers.find(l => l.id === selectedLayerId) || null}
+                                layer={selectedLayers[0]}
                                 updateLayer={updateLayer}
                                 removeLayer={removeLayer}
+                                changeStackOrder={changeStackOrder}
+                                fonts={fonts}
+                                onFontUpload={handleFontUpload}
+                            />
+                        )}
+                        {selectedLayers.length > 0 ? (
+                            <AlignControls 
+                                count={selectedLayers.length}
+                                canGroup={selectedLayers.length > 1 && !selectedLayers.every(l => l.groupId && l.groupId === selectedLayers[0].groupId)}
+                                canUngroup={selectedLayers.some(l => l.groupId)}
+                                onGroup={handleGroup}
+                                onUngroup={handleUngroup}
+                                onAlign={handleAlign}
+                                onDistribute={handleDistribute}
+                                onDelete={removeSelectedLayers}
                             />
                         ) : (
-                            <p className="text-sm text-slate-500 text-center py-4">Select a layer to edit it.</p>
+                            <p className="text-sm text-slate-500 text-center py-4">Select a layer to edit it. Shift-click or drag across the canvas to select several.</p>
                         )}
                         
                         <div className="space-y-2 mt-4">
                             <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">All Layers</h3>
-                            {layers.map((layer, index) => (
+                            {/* Listed front to back; drag a row to change its stacking position */}
+                            {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
                                 <div 
                                     key={layer.id}
-                                    onClick={() => setSelectedLayerId(layer.id)}
-                                    className={`p-2 rounded border flex items-center gap-3 cursor-pointer ${selectedLayerId === layer.id ? 'border-brand-500 bg-brand-50' : 'border-slate-200 hover:border-slate-300'}`}
+                                    draggable
+                                    onDragStart={() => setDraggedLayerId(layer.id)}
+                                    onDragEnd={() => setDraggedLayerId(null)}
+                                    onDragOver={(e) => e.preventDefault()}
+                                    onDrop={() => handleLayerDrop(layer.id)}
+                                    onClick={(e) => setSelectedLayerIds(ids => e.shiftKey
+                                        ? (ids.includes(layer.id) ? ids.filter(id => id !== layer.id) : [...ids, layer.id])
+                                        : [layer.id])}
+                                    className={`p-2 rounded border flex items-center gap-3 cursor-pointer ${selectedLayerIds.includes(layer.id) ? 'border-brand-500 bg-brand-50' : 'border-slate-200 hover:border-slate-300'} ${draggedLayerId === layer.id ? 'opacity-50' : ''}`}
                                 >
+                                    <GripVertical size={14} className="text-slate-300 cursor-grab"/>
                                     <span className="text-xs text-slate-400 w-4">{index + 1}</span>
-                                    {layer.type === 'image' ? <ImageIcon size={16} className="text-slate-600"/> : <Type size={16} className="text-slate-600"/>}
+                                    {layer.type === 'image' ? <ImageIcon size={16} className="text-slate-600"/>
+                                        : layer.type === 'shape' ? <Shapes size={16} className="text-slate-600"/>
+                                        : <Type size={16} className="text-slate-600"/>}
                                     <span className="text-sm text-slate-700 truncate flex-1">
-                                        {layer.type === 'text' ? layer.content : 'Image Layer'}
+                                        {layer.type === 'text' ? layer.content : layer.type === 'shape' ? 'Shape Layer' : 'Image Layer'}
                                     </span>
                                 </div>
                             ))}
@@ -492,6 +1144,31 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Recent Projects Modal */}
+      {showRecent && (
+        <RecentProjects 
+            projects={recentProjects}
+            currentProjectId={projectId}
+            onOpen={handleOpenRecent}
+            onDelete={handleDeleteRecent}
+            onClose={() => setShowRecent(false)}
+        />
+      )}
+
+      {/* Seam Warnings Modal */}
+      {showSeamWarnings && (
+        <SeamWarnings 
+            issues={seamIssues}
+            onSelect={(id) => {
+                setSelectedLayerIds([id]);
+                setActiveTab('layers');
+            }}
+            onNudge={handleNudgeOffSeam}
+            onExport={handleExport}
+            onClose={() => setShowSeamWarnings(false)}
+        />
+      )}
+
       {/* About Modal */}
       {showAbout && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import {
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+  AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter,
+  Group, Ungroup, Trash2
+} from 'lucide-react';
+import { Alignment, AlignReference } from '../utils/selection';
+
+interface AlignControlsProps {
+  count: number;
+  canGroup: boolean;
+  canUngroup: boolean;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onAlign: (alignment: Alignment, reference: AlignReference) => void;
+  onDistribute: (axis: 'horizontal' | 'vertical', reference: AlignReference) => void;
+  onDelete: () => void;
+}
+
+const ALIGNMENTS: { alignment: Alignment; label: string; icon: React.ReactNode }[] = [
+  { alignment: 'left', label: 'Align left', icon: <AlignStartVertical size={14}/> },
+  { alignment: 'center', label: 'Align centre', icon: <AlignCenterVertical size={14}/> },
+  { alignment: 'right', label: 'Align right', icon: <AlignEndVertical size={14}/> },
+  { alignment: 'top', label: 'Align top', icon: <AlignStartHorizontal size={14}/> },
+  { alignment: 'middle', label: 'Align middle', icon: <AlignCenterHorizontal size={14}/> },
+  { alignment: 'bottom', label: 'Align bottom', icon: <AlignEndHorizontal size={14}/> },
+];
+
+export const AlignControls: React.FC<AlignControlsProps> = ({
+  count,
+  canGroup,
+  canUngroup,
+  onGroup,
+  onUngroup,
+  onAlign,
+  onDistribute,
+  onDelete
+}) => {
+  const [reference, setReference] = useState<AlignReference>('selection');
+  // Distributing within the selection needs something between the two ends
+  const canDistribute = reference !== 'selection' || count >= 3;
+
+  return (
+    <div className="space-y-3 p-4 border-t border-slate-200 bg-white">
+      {count > 1 && (
+        <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-slate-700">{count} layers selected</h3>
+            <button
+                onClick={onDelete}
+                className="text-red-500 hover:text-red-600 p-1 rounded hover:bg-red-50"
+            >
+                <Trash2 size={16} />
+            </button>
+        </div>
+      )}
+
+      {(canGroup || canUngroup) && (
+        <div className="grid grid-cols-2 gap-1">
+            <button
+                onClick={onGroup}
+                disabled={!canGroup}
+                className="flex items-center justify-center gap-1.5 py-1.5 border border-slate-200 rounded text-xs text-slate-600 hover:border-slate-300 hover:bg-slate-50 disabled:opacity-40"
+            >
+                <Group size={14}/> Group
+            </button>
+            <button
+                onClick={onUngroup}
+                disabled={!canUngroup}
+                className="flex items-center justify-center gap-1.5 py-1.5 border border-slate-200 rounded text-xs text-slate-600 hover:border-slate-300 hover:bg-slate-50 disabled:opacity-40"
+            >
+                <Ungroup size={14}/> Ungroup
+            </button>
+        </div>
+      )}
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+            <label className="text-xs text-slate-500">Align to</label>
+            <select
+                value={reference}
+                onChange={(e) => setReference(e.target.value as AlignReference)}
+                className="text-xs border rounded px-1 py-0.5"
+            >
+                <option value="selection">Selection</option>
+                <option value="poster">Poster</option>
+                <option value="tile">Current tile</option>
+            </select>
+        </div>
+        <div className="grid grid-cols-8 gap-1">
+            {ALIGNMENTS.map(({ alignment, label, icon }) => (
+                <button
+                    key={alignment}
+                    onClick={() => onAlign(alignment, reference)}
+                    title={label}
+                    className="flex items-center justify-center py-1.5 border border-slate-200 rounded text-slate-600 hover:border-slate-300 hover:bg-slate-50"
+                >
+                    {icon}
+                </button>
+            ))}
+            <button
+                onClick={() => onDistribute('horizontal', reference)}
+                disabled={!canDistribute}
+                title="Distribute horizontally"
+                className="flex items-center justify-center py-1.5 border border-slate-200 rounded text-slate-600 hover:border-slate-300 hover:bg-slate-50 disabled:opacity-40"
+            >
+                <AlignHorizontalDistributeCenter size={14}/>
+            </button>
+            <button
+                onClick={() => onDistribute('vertical', reference)}
+                disabled={!canDistribute}
+                title="Distribute vertically"
+                className="flex items-center justify-center py-1.5 border border-slate-200 rounded text-slate-600 hover:border-slate-300 hover:bg-slate-50 disabled:opacity-40"
+            >
+                <AlignVerticalDistributeCenter size={14}/>
+            </button>
+        </div>
+        {reference === 'selection' && count === 1 && (
+            <p className="text-[10px] text-slate-400 mt-1">A single layer or group aligns to the poster.</p>
+        )}
+      </div>
+    </div>
+  );
+};
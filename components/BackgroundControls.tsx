@@ -0,0 +1,111 @@
+import React from 'react';
+import { Upload } from 'lucide-react';
+import { BackgroundType, PosterBackground } from '../types';
+
+interface BackgroundControlsProps {
+  background: PosterBackground;
+  onChange: (updates: Partial<PosterBackground>) => void;
+}
+
+export const BackgroundControls: React.FC<BackgroundControlsProps> = ({ background, onChange }) => {
+  const isGradient = background.type === BackgroundType.LINEAR || background.type === BackgroundType.RADIAL;
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      if (event.target?.result) {
+        onChange({ type: BackgroundType.IMAGE, image: event.target.result as string });
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">Background</h3>
+        <div>
+            <label className="text-xs font-medium text-slate-500">Fill</label>
+            <select
+                value={background.type}
+                onChange={(e) => onChange({ type: e.target.value as BackgroundType })}
+                className="w-full mt-1 border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white"
+            >
+                <option value={BackgroundType.SOLID}>Solid colour</option>
+                <option value={BackgroundType.LINEAR}>Linear gradient</option>
+                <option value={BackgroundType.RADIAL}>Radial gradient</option>
+                <option value={BackgroundType.IMAGE}>Image</option>
+            </select>
+        </div>
+        <div className="flex items-center gap-2">
+            <label className="text-xs font-medium text-slate-500 flex-1">
+                {isGradient ? 'Colours' : background.type === BackgroundType.IMAGE ? 'Colour behind the image' : 'Colour'}
+            </label>
+            <input
+                type="color"
+                value={background.color}
+                onChange={(e) => onChange({ color: e.target.value })}
+                title={isGradient ? 'Start colour' : 'Colour'}
+                className="w-8 h-8 border rounded cursor-pointer"
+            />
+            {isGradient && (
+                <input
+                    type="color"
+                    value={background.color2}
+                    onChange={(e) => onChange({ color2: e.target.value })}
+                    title="End colour"
+                    className="w-8 h-8 border rounded cursor-pointer"
+                />
+            )}
+        </div>
+        {background.type === BackgroundType.LINEAR && (
+            <div>
+                <label className="text-xs font-medium text-slate-500">Direction ({background.angle}°)</label>
+                <input
+                    type="range" min="0" max="359" step="1"
+                    value={background.angle}
+                    onChange={(e) => onChange({ angle: Number(e.target.value) })}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                />
+            </div>
+        )}
+        {background.type === BackgroundType.IMAGE && (
+            <>
+                <label className="flex items-center justify-center gap-1.5 py-1.5 border border-slate-200 rounded text-xs text-slate-600 hover:border-slate-300 hover:bg-slate-50 cursor-pointer">
+                    <Upload size={14}/> {background.image ? 'Replace Image' : 'Choose Image'}
+                    <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
+                </label>
+                {background.image && (
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => onChange({ imageFit: 'cover' })}
+                            className={`flex-1 py-1.5 text-xs rounded border ${background.imageFit === 'cover' ? 'bg-brand-50 border-brand-500 text-brand-700' : 'border-slate-200'}`}
+                        >
+                            Cover
+                        </button>
+                        <button
+                            onClick={() => onChange({ imageFit: 'tile' })}
+                            className={`flex-1 py-1.5 text-xs rounded border ${background.imageFit === 'tile' ? 'bg-brand-50 border-brand-500 text-brand-700' : 'border-slate-200'}`}
+                        >
+                            Tile
+                        </button>
+                    </div>
+                )}
+                {background.image && background.imageFit === 'tile' && (
+                    <div>
+                        <label className="text-xs font-medium text-slate-500">Tile Width ({Math.round(background.tileWidth * 100)}% of the poster)</label>
+                        <input
+                            type="range" min="0.02" max="1" step="0.01"
+                            value={background.tileWidth}
+                            onChange={(e) => onChange({ tileWidth: parseFloat(e.target.value) })}
+                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                )}
+            </>
+        )}
+    </div>
+  );
+};
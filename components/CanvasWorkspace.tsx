@@ -1,14 +1,71 @@
-import React, { useRef, useState } from 'react';
-import { Layer, PosterConfig, PaperSize, PaperOrientation, Unit } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageFit, Layer, PosterConfig, PaperSize, PrinterProfile, TextFit, Unit } from '../types';
 import { clsx } from 'clsx';
+import { getSharedCorners, getTileLabel, getTileLayout } from '../utils/layout';
+import { getSnapTargets, snapBounds, SnapGuide, SnapTargets } from '../utils/snapping';
+import { AlertTriangle, RotateCw } from 'lucide-react';
+import {
+  boundsIntersect, Bounds, DEFAULT_CROP, getDragRotation, getImageDrawRect, getVisualBounds,
+  MAX_CROP_ZOOM, resizeLayerBox, ResizeHandle, unionBounds
+} from '../utils/geometry';
+import { expandToGroups, scaleLayers } from '../utils/selection';
+import { getLineHeight, getTextBlockHeight, layoutText } from '../utils/pdfText';
+import { getBackgroundStyle } from '../utils/background';
+import { getShapePath, isFilledShape, toSvgPath } from '../utils/shapes';
+
+// Corner handles plus edge handles, positioned on the layer's own box
+const RESIZE_HANDLES: { handle: ResizeHandle; className: string }[] = [
+  { handle: 'nw', className: '-top-1.5 -left-1.5' },
+  { handle: 'n', className: '-top-1.5 left-1/2 -translate-x-1/2' },
+  { handle: 'ne', className: '-top-1.5 -right-1.5' },
+  { handle: 'e', className: 'top-1/2 -right-1.5 -translate-y-1/2' },
+  { handle: 'se', className: '-bottom-1.5 -right-1.5' },
+  { handle: 's', className: '-bottom-1.5 left-1/2 -translate-x-1/2' },
+  { handle: 'sw', className: '-bottom-1.5 -left-1.5' },
+  { handle: 'w', className: 'top-1/2 -left-1.5 -translate-y-1/2' },
+];
+
+// Screen pixels within which a dragged layer snaps to a guide
+const SNAP_THRESHOLD = 6;
+
+// CSS for a text layer, matching the PDF text renderer
+const getTextStyle = (layer: Layer, fontSize: number): React.CSSProperties => {
+  const style = layer.style || {};
+  const strokeWidth = style.strokeColor ? (style.strokeWidth || 0) * fontSize : 0;
+  const shadowOffset = style.shadowColor ? (style.shadowOffset || 0) * fontSize : 0;
+  return {
+    color: style.color,
+    fontSize: `${fontSize}px`,
+    fontFamily: style.fontFamily && `"${style.fontFamily}"`,
+    fontWeight: style.fontWeight,
+    fontStyle: style.fontStyle,
+    textDecoration: style.underline ? 'underline' : undefined,
+    textAlign: style.textAlign,
+    lineHeight: getLineHeight(layer),
+    letterSpacing: `${style.letterSpacing || 0}em`,
+    WebkitTextStroke: strokeWidth > 0 ? `${strokeWidth}px ${style.strokeColor}` : undefined,
+    // Outline behind the fill, like the PDF
+    paintOrder: 'stroke fill',
+    textShadow: shadowOffset > 0 ? `${shadowOffset}px ${shadowOffset}px 0 ${style.shadowColor}` : undefined,
+    backgroundColor: style.backgroundColor,
+  };
+};
 
 interface CanvasWorkspaceProps {
   layers: Layer[];
   config: PosterConfig;
   paperSize: PaperSize;
-  selectedLayerId: string | null;
-  onLayerSelect: (id: string | null) => void;
+  printer: PrinterProfile | null;
+  selectedLayerIds: string[];
+  onSelectionChange: (ids: string[]) => void;
   onLayerUpdate: (id: string, updates: Partial<Layer>) => void;
+  // Several layers at once, e.g. while moving a selection
+  onLayersUpdate: (updates: Record<string, Partial<Layer>>) => void;
+  // Bracket a drag/resize so the whole gesture is one undo step
+  onInteractionStart: () => void;
+  onInteractionEnd: () => void;
+  // Layers the seam checker flagged as crossing a cut
+  seamIssueLayerIds: string[];
   zoom: number;
 }
 
@@ -16,55 +73,71 @@ export const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
   layers,
   config,
   paperSize,
-  selectedLayerId,
-  onLayerSelect,
+  printer,
+  selectedLayerIds,
+  onSelectionChange,
   onLayerUpdate,
+  onLayersUpdate,
+  onInteractionStart,
+  onInteractionEnd,
+  seamIssueLayerIds,
   zoom
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Interaction State
   const [interaction, setInteraction] = useState<{
-    mode: 'none' | 'moving' | 'resizing';
-    activeHandle: 'nw' | 'ne' | 'sw' | 'se' | null;
+    mode: 'none' | 'moving' | 'resizing' | 'cropping' | 'rotating' | 'region' | 'scaling' | 'marquee';
+    activeHandle: ResizeHandle | null;
     startMouse: { x: number; y: number };
     startLayer: Layer | null;
+    // Every selected layer as it was when the gesture started
+    startLayers: Layer[];
+    // Layer centre in screen coordinates, the pivot while rotating
+    pivot: { x: number; y: number };
   }>({
     mode: 'none',
     activeHandle: null,
     startMouse: { x: 0, y: 0 },
-    startLayer: null
+    startLayer: null,
+    startLayers: [],
+    pivot: { x: 0, y: 0 }
   });
 
-  const isInch = config.unit === Unit.INCH;
+  // Marquee rectangle in logical poster pixels, and the selection it adds to (Shift)
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  const marqueeBaseRef = useRef<string[]>([]);
+
+  // Captured when a move starts: where the selection was and what it can snap to
+  const snapRef = useRef<{ startBounds: Bounds; targets: SnapTargets } | null>(null);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+
+  // Image layer whose crop is being edited on the canvas (drag pans, wheel zooms)
+  const [cropLayerId, setCropLayerId] = useState<string | null>(null);
+  // Natural image sizes, needed to place cover/contain/crop fits
+  const [imageSizes, setImageSizes] = useState<Record<string, { w: number; h: number }>>({});
 
-  // Calculate paper dimensions in current unit
-  const paperWidth = isInch ? paperSize.width / 25.4 : paperSize.width;
-  const paperHeight = isInch ? paperSize.height / 25.4 : paperSize.height;
+  useEffect(() => {
+    if (cropLayerId && (selectedLayerIds.length !== 1 || selectedLayerIds[0] !== cropLayerId)) setCropLayerId(null);
+  }, [cropLayerId, selectedLayerIds]);
 
-  const isPortrait = config.orientation === PaperOrientation.PORTRAIT;
-  const pWidth = isPortrait ? paperWidth : paperHeight;
-  const pHeight = isPortrait ? paperHeight : paperWidth;
-  const printW = pWidth - (config.margin * 2);
-  const printH = pHeight - (config.margin * 2);
+  useEffect(() => {
+    if (!cropLayerId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === 'Enter') setCropLayerId(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cropLayerId]);
+
+  const isInch = config.unit === Unit.INCH;
 
   // Calculate Poster Visual Size
-  let posterDisplayWidth = 0;
-  let posterDisplayHeight = 0;
-  let cols = 0;
-  let rows = 0;
-
-  if (config.mode === 'grid') {
-      posterDisplayWidth = config.gridCols * printW;
-      posterDisplayHeight = config.gridRows * printH;
-      cols = config.gridCols;
-      rows = config.gridRows;
-  } else {
-      posterDisplayWidth = config.targetWidth;
-      posterDisplayHeight = config.targetHeight;
-      cols = Math.ceil(posterDisplayWidth / printW);
-      rows = Math.ceil(posterDisplayHeight / printH);
-  }
+  const layout = getTileLayout(config, paperSize, printer);
+  const {
+    printW, printH, stepW, stepH, overlap,
+    posterWidth: posterDisplayWidth, posterHeight: posterDisplayHeight, cols, rows
+  } = layout;
 
   // Convert unit to pixels for screen display
   // Base scale: 1mm = 1px. 1in = 25.4px.
@@ -74,27 +147,164 @@ export const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
   const visualW = posterDisplayWidth * displayScale;
   const visualH = posterDisplayHeight * displayScale;
 
-  const handleMouseDown = (e: React.MouseEvent, layerId: string, handle: 'nw' | 'ne' | 'sw' | 'se' | null = null) => {
+  // Tile i starts at i * step; the closing line sits where the last tile ends
+  const tileEdge = (i: number, count: number, step: number, print: number) =>
+    i < count ? i * step : (count - 1) * step + print;
+
+  const selectedLayers = layers.filter(l => selectedLayerIds.includes(l.id));
+  const selectionBox = selectedLayers.length > 1
+    ? unionBounds(selectedLayers.map(layer => getVisualBounds(layer, visualW, visualH)))
+    : null;
+
+  const handleMouseDown = (e: React.MouseEvent, layerId: string, handle: ResizeHandle | null = null) => {
     e.stopPropagation();
     e.preventDefault(); // Prevent default browser dragging
     
     const layer = layers.find(l => l.id === layerId);
     if (!layer) return;
 
-    onLayerSelect(layerId);
+    // Shift-click adds or removes the layer (and its group) without dragging
+    const clicked = expandToGroups(layers, [layerId]);
+    if (!handle && e.shiftKey) {
+      onSelectionChange(selectedLayerIds.includes(layerId)
+        ? selectedLayerIds.filter(id => !clicked.includes(id))
+        : [...selectedLayerIds, ...clicked.filter(id => !selectedLayerIds.includes(id))]);
+      return;
+    }
+
+    // Dragging part of the selection moves all of it
+    const selection = selectedLayerIds.includes(layerId) ? selectedLayerIds : clicked;
+    if (selection !== selectedLayerIds) onSelectionChange(selection);
+    onInteractionStart();
+
+    const mode = handle ? 'resizing' : cropLayerId === layerId ? 'cropping' : 'moving';
+    if (mode === 'moving') {
+      // Measure from the DOM so text (auto height) and rotated layers snap by what is drawn
+      const bounds = getRenderedBounds();
+      const selected = selection.map(id => bounds.get(id)).filter((b): b is Bounds => !!b);
+      selection.forEach(id => bounds.delete(id));
+      snapRef.current = selected.length > 0
+        ? { startBounds: unionBounds(selected), targets: getSnapTargets(layout, displayScale, [...bounds.values()]) }
+        : null;
+    }
     
     setInteraction({
-      mode: handle ? 'resizing' : 'moving',
+      mode,
+      activeHandle: handle,
+      startMouse: { x: e.clientX, y: e.clientY },
+      startLayer: { ...layer },
+      startLayers: layers.filter(l => selection.includes(l.id)),
+      pivot: { x: 0, y: 0 }
+    });
+  };
+
+  // Corner handles of the multi-selection box scale every selected layer together
+  const handleGroupScaleMouseDown = (e: React.MouseEvent, handle: ResizeHandle) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onInteractionStart();
+    setInteraction({
+      mode: 'scaling',
       activeHandle: handle,
       startMouse: { x: e.clientX, y: e.clientY },
-      startLayer: { ...layer }
+      startLayer: null,
+      startLayers: layers.filter(l => selectedLayerIds.includes(l.id)),
+      pivot: { x: 0, y: 0 }
+    });
+  };
+
+  // Pressing on empty space starts a marquee; without Shift it also clears the selection
+  const handleBackgroundMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    marqueeBaseRef.current = e.shiftKey ? selectedLayerIds : [];
+    if (!e.shiftKey) onSelectionChange([]);
+    setInteraction({
+      mode: 'marquee',
+      activeHandle: null,
+      startMouse: { x: e.clientX, y: e.clientY },
+      startLayer: null,
+      startLayers: [],
+      pivot: { x: 0, y: 0 }
+    });
+  };
+
+  // Drags an image layer's protected region within its frame
+  const handleRegionMouseDown = (e: React.MouseEvent, layer: Layer) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onInteractionStart();
+    setInteraction({
+      mode: 'region',
+      activeHandle: null,
+      startMouse: { x: e.clientX, y: e.clientY },
+      startLayer: { ...layer },
+      startLayers: [layer],
+      pivot: { x: 0, y: 0 }
+    });
+  };
+
+  // On-screen bounds of every layer in logical poster pixels
+  const getRenderedBounds = () => {
+    const bounds = new Map<string, Bounds>();
+    const container = containerRef.current;
+    if (!container) return bounds;
+    const origin = container.getBoundingClientRect();
+    container.querySelectorAll<HTMLElement>('[data-layer-id]').forEach(element => {
+      const rect = element.getBoundingClientRect();
+      bounds.set(element.dataset.layerId!, {
+        minX: (rect.left - origin.left) / zoom,
+        minY: (rect.top - origin.top) / zoom,
+        maxX: (rect.right - origin.left) / zoom,
+        maxY: (rect.bottom - origin.top) / zoom,
+      });
+    });
+    return bounds;
+  };
+
+  const handleRotateMouseDown = (e: React.MouseEvent, layer: Layer) => {
+    e.stopPropagation();
+    e.preventDefault();
+
+    // CSS rotates around the element centre, which is also the centre of its screen bounds
+    const layerElement = e.currentTarget.closest('[data-layer-id]');
+    if (!layerElement) return;
+    const bounds = layerElement.getBoundingClientRect();
+
+    onInteractionStart();
+    setInteraction({
+      mode: 'rotating',
+      activeHandle: null,
+      startMouse: { x: e.clientX, y: e.clientY },
+      startLayer: { ...layer },
+      startLayers: [layer],
+      pivot: { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 }
     });
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (interaction.mode === 'none' || !interaction.startLayer || !selectedLayerId) return;
+    if (interaction.mode === 'none') return;
 
-    const { startMouse, startLayer, activeHandle } = interaction;
+    const { startMouse, startLayer, startLayers, activeHandle } = interaction;
+
+    if (interaction.mode === 'marquee') {
+        const container = containerRef.current;
+        if (!container) return;
+        const origin = container.getBoundingClientRect();
+        const toPoster = (x: number, y: number) => ({ x: (x - origin.left) / zoom, y: (y - origin.top) / zoom });
+        const a = toPoster(startMouse.x, startMouse.y);
+        const b = toPoster(e.clientX, e.clientY);
+        const box = {
+            minX: Math.min(a.x, b.x), minY: Math.min(a.y, b.y),
+            maxX: Math.max(a.x, b.x), maxY: Math.max(a.y, b.y)
+        };
+        setMarquee(box);
+
+        const hits = expandToGroups(layers, layers
+            .filter(layer => boundsIntersect(getVisualBounds(layer, visualW, visualH), box))
+            .map(layer => layer.id));
+        onSelectionChange([...new Set([...marqueeBaseRef.current, ...hits])]);
+        return;
+    }
     
     // Calculate movement in logical pixels (compensating for zoom)
     const deltaX = (e.clientX - startMouse.x) / zoom;
@@ -105,94 +315,144 @@ export const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
     const deltaXPct = deltaX / visualW;
     const deltaYPct = deltaY / visualH;
 
-    if (interaction.mode === 'moving') {
-        onLayerUpdate(selectedLayerId, {
-            x: startLayer.x + deltaXPct,
-            y: startLayer.y + deltaYPct
+    if (interaction.mode === 'scaling' && activeHandle) {
+        // Uniform scale from the opposite corner, or from the centre with Alt
+        const box = unionBounds(startLayers.map(layer => getVisualBounds(layer, visualW, visualH)));
+        const sx = activeHandle.includes('e') ? 1 : -1;
+        const sy = activeHandle.includes('s') ? 1 : -1;
+        const growth = e.altKey ? 2 : 1;
+        const boxW = box.maxX - box.minX;
+        const boxH = box.maxY - box.minY;
+        const ratioW = (boxW + sx * deltaX * growth) / boxW;
+        const ratioH = (boxH + sy * deltaY * growth) / boxH;
+        const factor = Math.max(0.05, Math.abs(ratioW - 1) > Math.abs(ratioH - 1) ? ratioW : ratioH);
+        const anchor = e.altKey
+            ? { x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2 }
+            : { x: sx > 0 ? box.minX : box.maxX, y: sy > 0 ? box.minY : box.maxY };
+
+        onLayersUpdate(scaleLayers(startLayers, factor, { x: anchor.x / visualW, y: anchor.y / visualH }));
+    } else if (!startLayer) {
+        return;
+    } else if (interaction.mode === 'cropping') {
+        const size = imageSizes[startLayer.id];
+        if (!size) return;
+        const crop = startLayer.crop || DEFAULT_CROP;
+        const frameW = startLayer.width * visualW;
+        const frameH = startLayer.height * visualH;
+        const rect = getImageDrawRect(size.w, size.h, frameW, frameH, ImageFit.CROP, crop);
+
+        // Pan in the layer's own (rotated) frame
+        const rad = (startLayer.rotation * Math.PI) / 180;
+        const localX = deltaX * Math.cos(rad) + deltaY * Math.sin(rad);
+        const localY = -deltaX * Math.sin(rad) + deltaY * Math.cos(rad);
+        const overflowX = rect.w - frameW;
+        const overflowY = rect.h - frameH;
+        const clamp = (v: number) => Math.max(0, Math.min(1, v));
+
+        onLayerUpdate(startLayer.id, {
+            crop: {
+                ...crop,
+                x: overflowX > 0 ? clamp(crop.x - localX / overflowX) : crop.x,
+                y: overflowY > 0 ? clamp(crop.y - localY / overflowY) : crop.y
+            }
         });
-    } else if (interaction.mode === 'resizing' && activeHandle) {
-        let newX = startLayer.x;
-        let newY = startLayer.y;
-        let newW = startLayer.width;
-        let newH = startLayer.height;
-
-        const MIN_SIZE = 0.01; // Minimum 1% size
-
-        // Simple resizing logic (axis-aligned)
-        // For rotated layers, this feels a bit slippery but is functional
-        switch (activeHandle) {
-            case 'se':
-                newW = Math.max(MIN_SIZE, startLayer.width + deltaXPct);
-                newH = Math.max(MIN_SIZE, startLayer.height + deltaYPct);
-                break;
-            case 'sw':
-                // Dragging Left edge: changes X and Width
-                // If we shrink past min size, we clamp X to right edge - min size
-                const proposedW_sw = startLayer.width - deltaXPct;
-                if (proposedW_sw < MIN_SIZE) {
-                    newW = MIN_SIZE;
-                    newX = (startLayer.x + startLayer.width) - MIN_SIZE;
-                } else {
-                    newW = proposedW_sw;
-                    newX = startLayer.x + deltaXPct;
-                }
-                newH = Math.max(MIN_SIZE, startLayer.height + deltaYPct);
-                break;
-            case 'ne':
-                // Dragging Top edge: changes Y and Height
-                newW = Math.max(MIN_SIZE, startLayer.width + deltaXPct);
-                const proposedH_ne = startLayer.height - deltaYPct;
-                if (proposedH_ne < MIN_SIZE) {
-                    newH = MIN_SIZE;
-                    newY = (startLayer.y + startLayer.height) - MIN_SIZE;
-                } else {
-                    newH = proposedH_ne;
-                    newY = startLayer.y + deltaYPct;
-                }
-                break;
-            case 'nw':
-                // Dragging Top-Left: changes X, Y, Width, Height
-                const proposedW_nw = startLayer.width - deltaXPct;
-                const proposedH_nw = startLayer.height - deltaYPct;
-
-                if (proposedW_nw < MIN_SIZE) {
-                    newW = MIN_SIZE;
-                    newX = (startLayer.x + startLayer.width) - MIN_SIZE;
-                } else {
-                    newW = proposedW_nw;
-                    newX = startLayer.x + deltaXPct;
-                }
-
-                if (proposedH_nw < MIN_SIZE) {
-                    newH = MIN_SIZE;
-                    newY = (startLayer.y + startLayer.height) - MIN_SIZE;
-                } else {
-                    newH = proposedH_nw;
-                    newY = startLayer.y + deltaYPct;
-                }
-                break;
+    } else if (interaction.mode === 'moving') {
+        // Snap edges and centre to the poster, tile edges and other layers; Alt moves freely
+        const snap = snapRef.current;
+        let snapX = 0;
+        let snapY = 0;
+        if (snap && !e.altKey) {
+            const { startBounds, targets } = snap;
+            const result = snapBounds({
+                minX: startBounds.minX + deltaX,
+                minY: startBounds.minY + deltaY,
+                maxX: startBounds.maxX + deltaX,
+                maxY: startBounds.maxY + deltaY,
+            }, targets, SNAP_THRESHOLD / zoom);
+            snapX = result.dx;
+            snapY = result.dy;
+            setSnapGuides(result.guides);
+        } else if (snapGuides.length > 0) {
+            setSnapGuides([]);
         }
 
-        onLayerUpdate(selectedLayerId, {
-            x: newX,
-            y: newY,
-            width: newW,
-            height: newH
+        onLayersUpdate(Object.fromEntries(startLayers.map(layer => [layer.id, {
+            x: layer.x + deltaXPct + snapX / visualW,
+            y: layer.y + deltaYPct + snapY / visualH
+        }])));
+    } else if (interaction.mode === 'resizing' && activeHandle) {
+        // Images keep their proportions unless Shift is held; other layers lock with Shift
+        const keepAspect = startLayer.type === 'image' ? !e.shiftKey : e.shiftKey;
+
+        // Wrapped text is resized from the box its lines fill, not its stored height
+        const frame = startLayer.type === 'text'
+            ? { ...startLayer, height: getTextBlockHeight(startLayer, visualW, visualH) }
+            : startLayer;
+        onLayerUpdate(startLayer.id, resizeLayerBox(frame, activeHandle, deltaX, deltaY, visualW, visualH, {
+            keepAspect,
+            fromCenter: e.altKey,
+            minSize: 0.01 // Minimum 1% size
+        }));
+    } else if (interaction.mode === 'region' && startLayer.protectedRegion) {
+        // Move in the frame's own axes so rotated layers drag naturally
+        const region = startLayer.protectedRegion;
+        const rad = (startLayer.rotation * Math.PI) / 180;
+        const localX = deltaX * Math.cos(rad) + deltaY * Math.sin(rad);
+        const localY = -deltaX * Math.sin(rad) + deltaY * Math.cos(rad);
+        onLayerUpdate(startLayer.id, {
+            protectedRegion: {
+                ...region,
+                x: Math.max(0, Math.min(1 - region.width, region.x + localX / (startLayer.width * visualW))),
+                y: Math.max(0, Math.min(1 - region.height, region.y + localY / (startLayer.height * visualH)))
+            }
+        });
+    } else if (interaction.mode === 'rotating') {
+        // Shift snaps to 15° steps
+        onLayerUpdate(startLayer.id, {
+            rotation: getDragRotation(
+                startLayer.rotation,
+                interaction.pivot,
+                startMouse,
+                { x: e.clientX, y: e.clientY },
+                e.shiftKey
+            )
         });
     }
   };
 
   const handleMouseUp = () => {
-    setInteraction({ mode: 'none', activeHandle: null, startMouse: { x: 0, y: 0 }, startLayer: null });
+    if (interaction.mode !== 'none' && interaction.mode !== 'marquee') onInteractionEnd();
+    snapRef.current = null;
+    setSnapGuides([]);
+    setMarquee(null);
+    setInteraction({
+      mode: 'none', activeHandle: null, startMouse: { x: 0, y: 0 }, startLayer: null, startLayers: [], pivot: { x: 0, y: 0 }
+    });
+  };
+
+  const handleCropWheel = (e: React.WheelEvent, layer: Layer) => {
+    if (cropLayerId !== layer.id) return;
+    e.stopPropagation();
+    const crop = layer.crop || DEFAULT_CROP;
+    const zoomStep = e.deltaY < 0 ? 1.1 : 1 / 1.1;
+    onLayerUpdate(layer.id, { crop: { ...crop, zoom: Math.max(1, Math.min(MAX_CROP_ZOOM, crop.zoom * zoomStep)) } });
+  };
+
+  const startCropEditing = (layer: Layer) => {
+    if (layer.type !== 'image') return;
+    if (layer.fit !== ImageFit.CROP) {
+        onLayerUpdate(layer.id, { fit: ImageFit.CROP, crop: layer.crop || DEFAULT_CROP });
+    }
+    setCropLayerId(layer.id);
   };
 
   return (
     <div 
-        className="flex-1 overflow-auto bg-slate-100 flex items-center justify-center p-8 relative cursor-grab active:cursor-grabbing"
+        className="flex-1 overflow-auto bg-slate-100 flex items-center justify-center p-8 relative cursor-crosshair"
+        onMouseDown={handleBackgroundMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
-        onClick={() => onLayerSelect(null)}
     >
       <div 
         ref={containerRef}
@@ -201,104 +461,339 @@ export const CanvasWorkspace: React.FC<CanvasWorkspaceProps> = ({
             width: `${visualW}px`,
             height: `${visualH}px`,
             transform: `scale(${zoom})`,
-            backgroundImage: 'linear-gradient(45deg, #f0f0f0 25%, transparent 25%), linear-gradient(-45deg, #f0f0f0 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #f0f0f0 75%), linear-gradient(-45deg, transparent 75%, #f0f0f0 75%)',
-            backgroundSize: '20px 20px',
-            backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px'
+            // Same fill as the exported sheets, on top of the white paper
+            ...getBackgroundStyle(config.background)
         }}
       >
         {/* Render Layers */}
         {layers.map(layer => {
-            const isSelected = selectedLayerId === layer.id;
-            const isText = layer.type === 'text';
+            const isSelected = selectedLayerIds.includes(layer.id);
+            const isOnlySelected = isSelected && selectedLayerIds.length === 1;
+            // Wrapped text grows with its lines; fitted text fills its box
+            const isAutoHeight = layer.type === 'text' && layer.textFit !== TextFit.FIT;
+            const isCropping = cropLayerId === layer.id;
+            const crossesSeam = seamIssueLayerIds.includes(layer.id);
             
             return (
                 <div
                     key={layer.id}
+                    data-layer-id={layer.id}
                     onMouseDown={(e) => handleMouseDown(e, layer.id)}
+                    onDoubleClick={() => startCropEditing(layer)}
+                    onWheel={(e) => handleCropWheel(e, layer)}
                     className={clsx(
                         "absolute group",
-                        isSelected ? "ring-2 ring-blue-500 z-10" : "z-0 hover:ring-1 hover:ring-blue-300"
+                        // Stacking follows the layer order so the canvas matches the PDF
+                        isSelected ? "ring-2 ring-blue-500" : "hover:ring-1 hover:ring-blue-300",
+                        isCropping && "ring-amber-500 cursor-move",
+                        crossesSeam && "outline outline-2 outline-dashed outline-rose-500 outline-offset-2"
                     )}
                     style={{
                         left: `${layer.x * 100}%`,
                         top: `${layer.y * 100}%`,
                         width: `${layer.width * 100}%`,
-                        height: isText ? 'auto' : `${layer.height * 100}%`,
+                        height: isAutoHeight ? 'auto' : `${layer.height * 100}%`,
                         transform: `rotate(${layer.rotation}deg)`,
                         opacity: layer.opacity,
                     }}
                 >
-                    {layer.type === 'image' ? (
-                        <img src={layer.content} alt="layer" className="w-full h-full object-cover pointer-events-none select-none" />
-                    ) : (
-                        <div 
-                            className="whitespace-pre-wrap select-none"
+                    {layer.type === 'image' ? (() => {
+                        const size = imageSizes[layer.id];
+                        const frameW = layer.width * visualW;
+                        const frameH = layer.height * visualH;
+                        const rect = size
+                            ? getImageDrawRect(size.w, size.h, frameW, frameH, layer.fit, layer.crop)
+                            : { x: 0, y: 0, w: frameW, h: frameH };
+                        const imageStyle: React.CSSProperties = {
+                            left: `${(rect.x / frameW) * 100}%`,
+                            top: `${(rect.y / frameH) * 100}%`,
+                            width: `${(rect.w / frameW) * 100}%`,
+                            height: `${(rect.h / frameH) * 100}%`,
+                            maxWidth: 'none'
+                        };
+                        return (
+                            <>
+                                {/* While cropping, show the hidden part of the image faded */}
+                                {isCropping && (
+                                    <img src={layer.content} alt="" className="absolute opacity-30 pointer-events-none select-none" style={imageStyle} />
+                                )}
+                                <div className="absolute inset-0 overflow-hidden">
+                                    <img 
+                                        src={layer.content} 
+                                        alt="layer" 
+                                        className="absolute pointer-events-none select-none"
+                                        style={imageStyle}
+                                        onLoad={(e) => {
+                                            const { naturalWidth: w, naturalHeight: h } = e.currentTarget;
+                                            setImageSizes(prev => prev[layer.id]?.w === w && prev[layer.id]?.h === h ? prev : { ...prev, [layer.id]: { w, h } });
+                                        }}
+                                    />
+                                </div>
+                            </>
+                        );
+                    })() : layer.type === 'shape' ? (() => {
+                        if (!layer.shape) return null;
+                        // Drawn at the box's pixel size so the stroke isn't stretched
+                        const frameW = layer.width * visualW;
+                        const frameH = layer.height * visualH;
+                        return (
+                            <svg
+                                className="absolute inset-0 w-full h-full overflow-visible pointer-events-none"
+                                viewBox={`0 0 ${frameW} ${frameH}`}
+                                preserveAspectRatio="none"
+                            >
+                                <path
+                                    d={toSvgPath(getShapePath(layer.shape, frameW, frameH))}
+                                    fill={(isFilledShape(layer.shape) && layer.shape.fill) || 'none'}
+                                    stroke={layer.shape.stroke || 'none'}
+                                    strokeWidth={layer.shape.stroke ? (layer.shape.strokeWidth || 0) * visualH : 0}
+                                    strokeLinejoin="round"
+                                />
+                            </svg>
+                        );
+                    })() : (() => {
+                        // Lines are broken by the shared layout so the preview matches the PDF
+                        const text = layoutText(layer, visualW, visualH);
+                        return (
+                            <div 
+                                className="whitespace-pre select-none"
+                                style={{
+                                    ...getTextStyle(layer, text.fontSize),
+                                    height: isAutoHeight ? undefined : '100%',
+                                    paddingTop: text.lines[0]?.top,
+                                }}
+                            >
+                                {text.lines.map((line, i) => (
+                                    // A zero-width space keeps empty lines their height
+                                    <div key={i}>{line.text || '\u200b'}</div>
+                                ))}
+                            </div>
+                        );
+                    })()}
+                    
+                    {/* Area of the image to keep off the seams; drag to move it */}
+                    {layer.type === 'image' && layer.protectedRegion && (isSelected || crossesSeam) && !isCropping && (
+                        <div
+                            className={clsx(
+                                "absolute border-2 border-dashed z-10",
+                                crossesSeam ? "border-rose-500 bg-rose-500/10" : "border-emerald-500 bg-emerald-500/10",
+                                isSelected ? "cursor-move" : "pointer-events-none"
+                            )}
                             style={{
-                                color: layer.style?.color,
-                                fontSize: `${(visualH * 0.05) * (layer.style?.fontSize || 1)}px`,
-                                fontFamily: layer.style?.fontFamily,
-                                fontWeight: layer.style?.fontWeight
+                                left: `${layer.protectedRegion.x * 100}%`,
+                                top: `${layer.protectedRegion.y * 100}%`,
+                                width: `${layer.protectedRegion.width * 100}%`,
+                                height: `${layer.protectedRegion.height * 100}%`
                             }}
+                            title="Protected area: kept off the seams"
+                            onMouseDown={(e) => handleRegionMouseDown(e, layer)}
+                        />
+                    )}
+
+                    {crossesSeam && (
+                        <div
+                            className="absolute -top-2 -left-2 bg-rose-500 text-white rounded-full p-0.5 z-20 pointer-events-none"
+                            title="Crosses a cut between sheets"
                         >
-                            {layer.content}
+                            <AlertTriangle size={10} />
                         </div>
                     )}
-                    
+
                     {/* Handles (Active only when selected) */}
-                    {isSelected && (
-                         <>
-                            {/* Corner Handles - visible for images always, text maybe? */}
-                            {/* Top Left */}
-                            <div 
-                                className="absolute -top-1.5 -left-1.5 w-3 h-3 bg-white border border-blue-500 rounded-full cursor-nw-resize hover:bg-blue-50 z-20" 
-                                onMouseDown={(e) => handleMouseDown(e, layer.id, 'nw')}
-                            />
-                            {/* Top Right */}
-                            <div 
-                                className="absolute -top-1.5 -right-1.5 w-3 h-3 bg-white border border-blue-500 rounded-full cursor-ne-resize hover:bg-blue-50 z-20" 
-                                onMouseDown={(e) => handleMouseDown(e, layer.id, 'ne')}
-                            />
-                            {/* Bottom Left */}
-                            <div 
-                                className="absolute -bottom-1.5 -left-1.5 w-3 h-3 bg-white border border-blue-500 rounded-full cursor-sw-resize hover:bg-blue-50 z-20" 
-                                onMouseDown={(e) => handleMouseDown(e, layer.id, 'sw')}
-                            />
-                            {/* Bottom Right */}
-                            <div 
-                                className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-white border border-blue-500 rounded-full cursor-se-resize hover:bg-blue-50 z-20" 
-                                onMouseDown={(e) => handleMouseDown(e, layer.id, 'se')}
-                            />
-                         </>
+                    {/* Shift toggles aspect lock (on by default for images), Alt resizes from the centre */}
+                    {isOnlySelected && !isCropping && RESIZE_HANDLES.map(({ handle, className }) => (
+                        <div 
+                            key={handle}
+                            className={clsx(
+                                "absolute w-3 h-3 bg-white border border-blue-500 hover:bg-blue-50 z-20",
+                                handle.length === 2 ? "rounded-full" : "rounded-sm",
+                                className
+                            )}
+                            style={{ cursor: `${handle}-resize` }}
+                            onMouseDown={(e) => handleMouseDown(e, layer.id, handle)}
+                        />
+                    ))}
+
+                    {/* Rotation handle above the top edge; rotates with the layer */}
+                    {isOnlySelected && !isCropping && (
+                        <div className="absolute left-1/2 -top-8 -translate-x-1/2 flex flex-col items-center z-20">
+                            <div
+                                className="w-5 h-5 rounded-full bg-white border border-blue-500 text-blue-600 hover:bg-blue-50 flex items-center justify-center cursor-grab active:cursor-grabbing"
+                                title="Drag to rotate (Shift snaps to 15°)"
+                                onMouseDown={(e) => handleRotateMouseDown(e, layer)}
+                            >
+                                <RotateCw size={10} />
+                            </div>
+                            <div className="w-px h-3 bg-blue-500" />
+                        </div>
+                    )}
+
+                    {/* Angle readout while rotating, kept upright */}
+                    {isOnlySelected && interaction.mode === 'rotating' && (
+                        <div
+                            className="absolute left-1/2 top-1/2 px-1.5 py-0.5 rounded bg-slate-800/90 text-white text-xs font-mono pointer-events-none whitespace-nowrap z-30"
+                            style={{ transform: `translate(-50%, -50%) rotate(${-layer.rotation}deg)` }}
+                        >
+                            {layer.rotation}°
+                        </div>
                     )}
                 </div>
             );
         })}
 
+        {/* Multi-selection box; its corners scale the whole selection (Alt from the centre) */}
+        {selectionBox && (
+            <div
+                className="absolute border border-dashed border-blue-500 pointer-events-none z-40"
+                style={{
+                    left: `${selectionBox.minX}px`,
+                    top: `${selectionBox.minY}px`,
+                    width: `${selectionBox.maxX - selectionBox.minX}px`,
+                    height: `${selectionBox.maxY - selectionBox.minY}px`
+                }}
+            >
+                {RESIZE_HANDLES.filter(({ handle }) => handle.length === 2).map(({ handle, className }) => (
+                    <div 
+                        key={handle}
+                        className={clsx("absolute w-3 h-3 bg-white border border-blue-500 rounded-full hover:bg-blue-50 pointer-events-auto", className)}
+                        style={{ cursor: `${handle}-resize` }}
+                        onMouseDown={(e) => handleGroupScaleMouseDown(e, handle)}
+                    />
+                ))}
+            </div>
+        )}
+
+        {/* Marquee Selection */}
+        {marquee && (
+            <div
+                className="absolute border border-blue-500 bg-blue-500/10 pointer-events-none z-40"
+                style={{
+                    left: `${marquee.minX}px`,
+                    top: `${marquee.minY}px`,
+                    width: `${marquee.maxX - marquee.minX}px`,
+                    height: `${marquee.maxY - marquee.minY}px`
+                }}
+            />
+        )}
+
         {/* Grid Overlay */}
         <div className="absolute inset-0 pointer-events-none z-50">
+            {/* Overlap Bands */}
+            {overlap > 0 && Array.from({ length: cols - 1 }).map((_, i) => (
+                <div 
+                    key={`overlap-col-${i}`}
+                    className="absolute top-0 bottom-0 bg-amber-300/30 border-x border-amber-400/60"
+                    style={{ left: `${((i + 1) * stepW * displayScale)}px`, width: `${overlap * displayScale}px` }}
+                />
+            ))}
+            {overlap > 0 && Array.from({ length: rows - 1 }).map((_, i) => (
+                <div 
+                    key={`overlap-row-${i}`}
+                    className="absolute left-0 right-0 bg-amber-300/30 border-y border-amber-400/60"
+                    style={{ top: `${((i + 1) * stepH * displayScale)}px`, height: `${overlap * displayScale}px` }}
+                />
+            ))}
             {/* Draw Columns */}
             {Array.from({ length: cols + 1 }).map((_, i) => (
                 <div 
                     key={`col-${i}`}
                     className="absolute top-0 bottom-0 border-r border-blue-400 opacity-30"
-                    style={{ left: `${(i * printW * displayScale)}px` }}
-                >
-                    {i < cols && config.showCutLines && (
-                        <span className="absolute top-2 left-2 text-[10px] text-blue-600 font-mono bg-blue-50/80 px-1 rounded shadow-sm">
-                             P{i+1}
-                        </span>
-                    )}
-                </div>
+                    style={{ left: `${(tileEdge(i, cols, stepW, printW) * displayScale)}px` }}
+                />
             ))}
             {/* Draw Rows */}
             {Array.from({ length: rows + 1 }).map((_, i) => (
                 <div 
                     key={`row-${i}`}
                     className="absolute left-0 right-0 border-b border-blue-400 opacity-30"
-                    style={{ top: `${(i * printH * displayScale)}px` }}
+                    style={{ top: `${(tileEdge(i, rows, stepH, printH) * displayScale)}px` }}
+                >
+                </div>
+            ))}
+            {/* Tile Labels & Assembly Aids */}
+            {Array.from({ length: rows }).map((_, r) => Array.from({ length: cols }).map((_, c) => {
+                const left = c * stepW * displayScale;
+                const top = r * stepH * displayScale;
+                const width = printW * displayScale;
+                const height = printH * displayScale;
+                return (
+                    <React.Fragment key={`tile-${r}-${c}`}>
+                        {config.showCutLines && (
+                            <span 
+                                className="absolute text-[10px] text-blue-600 font-mono bg-blue-50/80 px-1 rounded shadow-sm"
+                                style={{ left: `${left + 8}px`, top: `${top + 8}px` }}
+                            >
+                                {getTileLabel(r, c)}
+                            </span>
+                        )}
+                        {config.showGlueTabs && c < cols - 1 && (
+                            <div 
+                                className="absolute flex items-center justify-center bg-slate-500/20 text-[9px] font-semibold text-slate-600 tracking-widest"
+                                style={{
+                                    left: `${left + (overlap > 0 ? stepW : printW) * displayScale}px`,
+                                    top: `${top}px`,
+                                    width: `${Math.max(overlap * displayScale, 4)}px`,
+                                    height: `${height}px`,
+                                    writingMode: 'vertical-rl'
+                                }}
+                            >
+                                {overlap > 0 && 'GLUE'}
+                            </div>
+                        )}
+                        {config.showGlueTabs && r < rows - 1 && (
+                            <div 
+                                className="absolute flex items-center justify-center bg-slate-500/20 text-[9px] font-semibold text-slate-600 tracking-widest"
+                                style={{
+                                    left: `${left}px`,
+                                    top: `${top + (overlap > 0 ? stepH : printH) * displayScale}px`,
+                                    width: `${width}px`,
+                                    height: `${Math.max(overlap * displayScale, 4)}px`
+                                }}
+                            >
+                                {overlap > 0 && 'GLUE'}
+                            </div>
+                        )}
+                        {config.showEdgeLabels && c < cols - 1 && (
+                            <span 
+                                className="absolute text-[9px] text-slate-500 bg-white/70 px-0.5 rounded -translate-x-full -translate-y-1/2"
+                                style={{ left: `${left + width - 4}px`, top: `${top + height / 2}px` }}
+                            >
+                                &rarr; {getTileLabel(r, c + 1)}
+                            </span>
+                        )}
+                        {config.showEdgeLabels && r < rows - 1 && (
+                            <span 
+                                className="absolute text-[9px] text-slate-500 bg-white/70 px-0.5 rounded -translate-x-1/2 -translate-y-full"
+                                style={{ left: `${left + width / 2}px`, top: `${top + height - 4}px` }}
+                            >
+                                &darr; {getTileLabel(r + 1, c)}
+                            </span>
+                        )}
+                    </React.Fragment>
+                );
+            }))}
+            {config.showRegistrationMarks && getSharedCorners(layout).map(({ x, y }) => (
+                <div 
+                    key={`mark-${x}-${y}`}
+                    className="absolute w-4 h-4 -translate-x-1/2 -translate-y-1/2"
+                    style={{ left: `${x * displayScale}px`, top: `${y * displayScale}px` }}
                 >
+                    <div className="absolute left-1/2 top-0 bottom-0 w-px bg-slate-800" />
+                    <div className="absolute top-1/2 left-0 right-0 h-px bg-slate-800" />
+                    <div className="absolute inset-1 rounded-full border border-slate-800" />
                 </div>
             ))}
+            {/* Smart guides for the current snap */}
+            {snapGuides.map(({ axis, position }) => (
+                <div 
+                    key={`guide-${axis}-${position}`}
+                    className={clsx(
+                        "absolute bg-fuchsia-500",
+                        axis === 'x' ? "top-0 bottom-0 w-px" : "left-0 right-0 h-px"
+                    )}
+                    style={axis === 'x' ? { left: `${position}px` } : { top: `${position}px` }}
+                />
+            ))}
         </div>
       </div>
     </div>
@@ -1,26 +1,95 @@
 import React from 'react';
-import { Layer } from '../types';
-import { Trash2, Type, Image as ImageIcon, Box } from 'lucide-react';
+import {
+  CustomFont, ImageFit, Layer, LayerRegion, ShapeKind, ShapeStyle, TextAlign, TextFit, TextStyle
+} from '../types';
+import { 
+  Trash2, Type, Image as ImageIcon, Box, ChevronUp, ChevronDown, ChevronsUp, ChevronsDown,
+  Bold, Italic, Underline, AlignLeft, AlignCenter, AlignRight, Upload,
+  Shapes, Square, Circle, Minus, ArrowRight, Flag
+} from 'lucide-react';
 import { COLORS, FONTS } from '../constants';
+import { StackAction } from '../utils/layerOrder';
+import { DEFAULT_CROP, MAX_CROP_ZOOM } from '../utils/geometry';
+import { TEXT_LINE_HEIGHT } from '../utils/pdfText';
+import { FONT_FILE_ACCEPT } from '../utils/fonts';
+import { DEFAULT_SHAPE_STYLES, isFilledShape } from '../utils/shapes';
 
 interface LayerControlsProps {
   layer: Layer | null;
   updateLayer: (id: string, updates: Partial<Layer>) => void;
   removeLayer: (id: string) => void;
+  changeStackOrder: (id: string, action: StackAction) => void;
+  fonts: CustomFont[];
+  onFontUpload: (layerId: string, file: File) => void;
 }
 
-export const LayerControls: React.FC<LayerControlsProps> = ({ layer, updateLayer, removeLayer }) => {
+// Starts centred on the frame; the user drags it over the face or logo to protect
+const DEFAULT_PROTECTED_REGION: LayerRegion = { x: 0.3, y: 0.3, width: 0.4, height: 0.4 };
+
+const STACK_ACTIONS: { action: StackAction; label: string; icon: React.ReactNode }[] = [
+  { action: 'front', label: 'Bring to front', icon: <ChevronsUp size={14}/> },
+  { action: 'forward', label: 'Bring forward', icon: <ChevronUp size={14}/> },
+  { action: 'backward', label: 'Send backward', icon: <ChevronDown size={14}/> },
+  { action: 'back', label: 'Send to back', icon: <ChevronsDown size={14}/> },
+];
+
+const TEXT_ALIGNS: { align: TextAlign; label: string; icon: React.ReactNode }[] = [
+  { align: 'left', label: 'Align left', icon: <AlignLeft size={14}/> },
+  { align: 'center', label: 'Align centre', icon: <AlignCenter size={14}/> },
+  { align: 'right', label: 'Align right', icon: <AlignRight size={14}/> },
+];
+
+const SHAPE_KINDS: { kind: ShapeKind; label: string; icon: React.ReactNode }[] = [
+  { kind: ShapeKind.RECT, label: 'Rectangle', icon: <Square size={14}/> },
+  { kind: ShapeKind.ELLIPSE, label: 'Ellipse', icon: <Circle size={14}/> },
+  { kind: ShapeKind.LINE, label: 'Line', icon: <Minus size={14}/> },
+  { kind: ShapeKind.ARROW, label: 'Arrow', icon: <ArrowRight size={14}/> },
+  { kind: ShapeKind.BANNER, label: 'Banner', icon: <Flag size={14}/> },
+];
+
+// Optional text effects: the colour turns each one on, with a starting size
+interface TextEffect {
+  label: string;
+  colorKey: 'strokeColor' | 'shadowColor' | 'backgroundColor';
+  sizeKey?: 'strokeWidth' | 'shadowOffset';
+  defaults: Partial<TextStyle>;
+}
+
+const TEXT_EFFECTS: TextEffect[] = [
+  { label: 'Outline', colorKey: 'strokeColor', sizeKey: 'strokeWidth', defaults: { strokeColor: '#ffffff', strokeWidth: 0.08 } },
+  { label: 'Shadow', colorKey: 'shadowColor', sizeKey: 'shadowOffset', defaults: { shadowColor: '#000000', shadowOffset: 0.05 } },
+  { label: 'Background', colorKey: 'backgroundColor', defaults: { backgroundColor: '#ffffff' } },
+];
+
+const toggleClass = (active: boolean) =>
+  `flex items-center justify-center py-1.5 border rounded ${active ? 'border-brand-500 bg-brand-50 text-brand-700' : 'border-slate-200 text-slate-600 hover:border-slate-300 hover:bg-slate-50'}`;
+
+export const LayerControls: React.FC<LayerControlsProps> = ({
+  layer, updateLayer, removeLayer, changeStackOrder, fonts, onFontUpload
+}) => {
   if (!layer) return (
     <div className="p-4 text-center text-slate-400 text-sm">
       Select a layer to edit
     </div>
   );
 
+  const setStyle = (updates: Partial<TextStyle>) => updateLayer(layer.id, { style: { ...layer.style, ...updates } });
+  const setShape = (updates: Partial<ShapeStyle>) => layer.shape && updateLayer(layer.id, { shape: { ...layer.shape, ...updates } });
+
+  // Lines have no fill, so a line without an outline would be invisible
+  const setShapeKind = (kind: ShapeKind) => {
+    const line = DEFAULT_SHAPE_STYLES[ShapeKind.LINE];
+    const needsStroke = kind === ShapeKind.LINE && !(layer.shape?.stroke && layer.shape.strokeWidth);
+    setShape(needsStroke
+      ? { kind, stroke: layer.shape?.fill || line.stroke, strokeWidth: line.strokeWidth }
+      : { kind });
+  };
+
   return (
     <div className="space-y-4 p-4 border-t border-slate-200 bg-white">
       <div className="flex justify-between items-center mb-2">
         <h3 className="font-semibold text-slate-700 flex items-center gap-2">
-            {layer.type === 'image' ? <ImageIcon size={16}/> : <Type size={16}/>}
+            {layer.type === 'image' ? <ImageIcon size={16}/> : layer.type === 'shape' ? <Shapes size={16}/> : <Type size={16}/>}
             Edit Layer
         </h3>
         <button 
@@ -31,6 +100,23 @@ export const LayerControls: React.FC<LayerControlsProps> = ({ layer, updateLayer
         </button>
       </div>
 
+      {/* Stacking Order */}
+      <div>
+        <label className="text-xs text-slate-500 block mb-1">Arrange</label>
+        <div className="grid grid-cols-4 gap-1">
+            {STACK_ACTIONS.map(({ action, label, icon }) => (
+                <button
+                    key={action}
+                    onClick={() => changeStackOrder(layer.id, action)}
+                    title={label}
+                    className="flex items-center justify-center py-1.5 border border-slate-200 rounded text-slate-600 hover:border-slate-300 hover:bg-slate-50"
+                >
+                    {icon}
+                </button>
+            ))}
+        </div>
+      </div>
+
       {/* Position & Opacity */}
       <div className="grid grid-cols-2 gap-2">
         <div>
@@ -67,6 +153,17 @@ export const LayerControls: React.FC<LayerControlsProps> = ({ layer, updateLayer
                     rows={2}
                 />
              </div>
+             <div>
+                <label className="text-xs text-slate-500 block mb-1">Layout</label>
+                <select 
+                    value={layer.textFit || TextFit.WRAP}
+                    onChange={(e) => updateLayer(layer.id, { textFit: e.target.value as TextFit })}
+                    className="w-full text-sm border rounded px-2 py-1"
+                >
+                    <option value={TextFit.WRAP}>Wrap inside the box</option>
+                    <option value={TextFit.FIT}>Shrink/grow to fit the box</option>
+                </select>
+             </div>
              <div>
                 <label className="text-xs text-slate-500 block mb-1">Color</label>
                 <div className="flex flex-wrap gap-1">
@@ -87,25 +184,239 @@ export const LayerControls: React.FC<LayerControlsProps> = ({ layer, updateLayer
                         type="number" step="0.1"
                         value={layer.style.fontSize}
                         onChange={(e) => updateLayer(layer.id, { style: { ...layer.style, fontSize: Number(e.target.value) } })}
-                        className="w-full text-sm border rounded px-2 py-1"
+                        // Fitted text takes its size from the box
+                        disabled={layer.textFit === TextFit.FIT}
+                        title={layer.textFit === TextFit.FIT ? 'Resize the box to change the size of fitted text' : undefined}
+                        className="w-full text-sm border rounded px-2 py-1 disabled:bg-slate-50 disabled:text-slate-400"
                      />
                 </div>
                 <div>
-                     <label className="text-xs text-slate-500 block mb-1">Font</label>
+                     <div className="flex justify-between items-center mb-1">
+                        <label className="text-xs text-slate-500">Font</label>
+                        <label className="text-[10px] text-brand-600 hover:text-brand-700 cursor-pointer flex items-center gap-0.5" title="Upload a TTF, OTF or WOFF font">
+                            <Upload size={10}/> Upload
+                            <input 
+                                type="file"
+                                accept={FONT_FILE_ACCEPT}
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) onFontUpload(layer.id, file);
+                                }}
+                            />
+                        </label>
+                     </div>
                      <select 
                         value={layer.style.fontFamily}
                         onChange={(e) => updateLayer(layer.id, { style: { ...layer.style, fontFamily: e.target.value } })}
                         className="w-full text-sm border rounded px-2 py-1"
                      >
                         {FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+                        {fonts.length > 0 && (
+                            <optgroup label="Project fonts">
+                                {fonts.map(f => <option key={f.id} value={f.family}>{f.family}</option>)}
+                            </optgroup>
+                        )}
                      </select>
                 </div>
              </div>
+             <div className="grid grid-cols-6 gap-1">
+                <button
+                    onClick={() => setStyle({ fontWeight: layer.style?.fontWeight === 'bold' ? 'normal' : 'bold' })}
+                    title="Bold"
+                    className={toggleClass(layer.style.fontWeight === 'bold')}
+                >
+                    <Bold size={14}/>
+                </button>
+                <button
+                    onClick={() => setStyle({ fontStyle: layer.style?.fontStyle === 'italic' ? 'normal' : 'italic' })}
+                    title="Italic"
+                    className={toggleClass(layer.style.fontStyle === 'italic')}
+                >
+                    <Italic size={14}/>
+                </button>
+                <button
+                    onClick={() => setStyle({ underline: !layer.style?.underline })}
+                    title="Underline"
+                    className={toggleClass(!!layer.style.underline)}
+                >
+                    <Underline size={14}/>
+                </button>
+                {TEXT_ALIGNS.map(({ align, label, icon }) => (
+                    <button
+                        key={align}
+                        onClick={() => setStyle({ textAlign: align })}
+                        title={label}
+                        className={toggleClass((layer.style?.textAlign || 'left') === align)}
+                    >
+                        {icon}
+                    </button>
+                ))}
+             </div>
+             <div className="grid grid-cols-2 gap-2">
+                <div>
+                     <label className="text-xs text-slate-500 block mb-1">Line Height</label>
+                     <input 
+                        type="number" step="0.1" min="0.5"
+                        value={layer.style.lineHeight || TEXT_LINE_HEIGHT}
+                        onChange={(e) => setStyle({ lineHeight: Number(e.target.value) })}
+                        className="w-full text-sm border rounded px-2 py-1"
+                     />
+                </div>
+                <div>
+                     <label className="text-xs text-slate-500 block mb-1">Letter Spacing</label>
+                     <input 
+                        type="number" step="0.01"
+                        value={layer.style.letterSpacing || 0}
+                        onChange={(e) => setStyle({ letterSpacing: Number(e.target.value) })}
+                        className="w-full text-sm border rounded px-2 py-1"
+                     />
+                </div>
+             </div>
+             {TEXT_EFFECTS.map(({ label, colorKey, sizeKey, defaults }) => {
+                const color = layer.style?.[colorKey];
+                return (
+                    <div key={colorKey} className="flex items-center gap-2">
+                        <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer w-24">
+                            <input 
+                                type="checkbox"
+                                checked={!!color}
+                                onChange={(e) => setStyle(e.target.checked ? defaults : { [colorKey]: undefined })}
+                                className="rounded text-brand-600 focus:ring-brand-500"
+                            />
+                            {label}
+                        </label>
+                        {color && (
+                            <input 
+                                type="color"
+                                value={color}
+                                onChange={(e) => setStyle({ [colorKey]: e.target.value })}
+                                className="w-7 h-7 border rounded cursor-pointer"
+                            />
+                        )}
+                        {color && sizeKey && (
+                            <input 
+                                type="range" min="0.01" max="0.25" step="0.01"
+                                value={layer.style?.[sizeKey] || 0}
+                                onChange={(e) => setStyle({ [sizeKey]: parseFloat(e.target.value) })}
+                                title={`${label} size`}
+                                className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                            />
+                        )}
+                    </div>
+                );
+             })}
+        </div>
+      )}
+
+      {layer.type === 'shape' && layer.shape && (
+        <div className="space-y-3">
+             <div className="grid grid-cols-5 gap-1">
+                {SHAPE_KINDS.map(({ kind, label, icon }) => (
+                    <button
+                        key={kind}
+                        onClick={() => setShapeKind(kind)}
+                        title={label}
+                        className={toggleClass(layer.shape?.kind === kind)}
+                    >
+                        {icon}
+                    </button>
+                ))}
+             </div>
+             {isFilledShape(layer.shape) && (
+                <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer w-24">
+                        <input 
+                            type="checkbox"
+                            checked={!!layer.shape.fill}
+                            onChange={(e) => setShape({ fill: e.target.checked ? DEFAULT_SHAPE_STYLES[layer.shape!.kind].fill : undefined })}
+                            className="rounded text-brand-600 focus:ring-brand-500"
+                        />
+                        Fill
+                    </label>
+                    {layer.shape.fill && (
+                        <input 
+                            type="color"
+                            value={layer.shape.fill}
+                            onChange={(e) => setShape({ fill: e.target.value })}
+                            className="w-7 h-7 border rounded cursor-pointer"
+                        />
+                    )}
+                </div>
+             )}
+             <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer w-24">
+                    <input 
+                        type="checkbox"
+                        checked={!!layer.shape.stroke}
+                        // A line is nothing but its stroke
+                        disabled={!isFilledShape(layer.shape)}
+                        onChange={(e) => setShape(e.target.checked
+                            ? { stroke: '#000000', strokeWidth: layer.shape?.strokeWidth || DEFAULT_SHAPE_STYLES[ShapeKind.LINE].strokeWidth }
+                            : { stroke: undefined })}
+                        className="rounded text-brand-600 focus:ring-brand-500"
+                    />
+                    Stroke
+                </label>
+                {layer.shape.stroke && (
+                    <>
+                        <input 
+                            type="color"
+                            value={layer.shape.stroke}
+                            onChange={(e) => setShape({ stroke: e.target.value })}
+                            className="w-7 h-7 border rounded cursor-pointer"
+                        />
+                        <input 
+                            type="range" min="0.001" max="0.05" step="0.001"
+                            value={layer.shape.strokeWidth || 0}
+                            onChange={(e) => setShape({ strokeWidth: parseFloat(e.target.value) })}
+                            title="Stroke width"
+                            className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </>
+                )}
+             </div>
+             {layer.shape.kind === ShapeKind.RECT && (
+                <div>
+                    <label className="text-xs text-slate-500">Corner Radius</label>
+                    <input 
+                        type="range" min="0" max="0.5" step="0.01"
+                        value={layer.shape.cornerRadius || 0}
+                        onChange={(e) => setShape({ cornerRadius: parseFloat(e.target.value) })}
+                        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                </div>
+             )}
         </div>
       )}
 
       {layer.type === 'image' && (
           <div className="space-y-3">
+             <div>
+                <label className="text-xs text-slate-500 block mb-1">Fit</label>
+                <select 
+                    value={layer.fit || ImageFit.COVER}
+                    onChange={(e) => updateLayer(layer.id, { fit: e.target.value as ImageFit, crop: layer.crop || DEFAULT_CROP })}
+                    className="w-full text-sm border rounded px-2 py-1"
+                >
+                    <option value={ImageFit.COVER}>Cover (fill frame)</option>
+                    <option value={ImageFit.CONTAIN}>Contain (whole image)</option>
+                    <option value={ImageFit.STRETCH}>Stretch</option>
+                    <option value={ImageFit.CROP}>Manual crop</option>
+                </select>
+             </div>
+             {layer.fit === ImageFit.CROP && (
+                <div>
+                    <label className="text-xs text-slate-500">Crop Zoom</label>
+                    <input 
+                        type="range" min="1" max={MAX_CROP_ZOOM} step="0.05"
+                        value={(layer.crop || DEFAULT_CROP).zoom}
+                        onChange={(e) => updateLayer(layer.id, { crop: { ...(layer.crop || DEFAULT_CROP), zoom: parseFloat(e.target.value) } })}
+                        className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                </div>
+             )}
              <div className="grid grid-cols-2 gap-2">
                 <div>
                      <label className="text-xs text-slate-500 block mb-1 flex items-center gap-1">
@@ -130,8 +441,53 @@ export const LayerControls: React.FC<LayerControlsProps> = ({ layer, updateLayer
                      />
                 </div>
              </div>
+             <div>
+                <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                    <input 
+                        type="checkbox"
+                        checked={!!layer.protectedRegion}
+                        onChange={(e) => updateLayer(layer.id, { protectedRegion: e.target.checked ? DEFAULT_PROTECTED_REGION : undefined })}
+                        className="rounded text-brand-600 focus:ring-brand-500"
+                    />
+                    Keep an area off the seams
+                </label>
+                {layer.protectedRegion && (() => {
+                    const region = layer.protectedRegion;
+                    return (
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                            <div>
+                                <label className="text-xs text-slate-500">Area Width</label>
+                                <input 
+                                    type="range" min="0.05" max="1" step="0.01"
+                                    value={region.width}
+                                    onChange={(e) => {
+                                        const width = parseFloat(e.target.value);
+                                        updateLayer(layer.id, { protectedRegion: { ...region, width, x: Math.min(region.x, 1 - width) } });
+                                    }}
+                                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-slate-500">Area Height</label>
+                                <input 
+                                    type="range" min="0.05" max="1" step="0.01"
+                                    value={region.height}
+                                    onChange={(e) => {
+                                        const height = parseFloat(e.target.value);
+                                        updateLayer(layer.id, { protectedRegion: { ...region, height, y: Math.min(region.y, 1 - height) } });
+                                    }}
+                                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                                />
+                            </div>
+                            <p className="col-span-2 text-[10px] text-slate-400">
+                                Drag the green box on the canvas over the part that must not be cut, like a face. You'll be warned before export if a cut runs through it.
+                            </p>
+                        </div>
+                    );
+                })()}
+             </div>
              <p className="text-[10px] text-slate-400">
-                 Drag the corner handles on the canvas to resize freely.
+                 Resizing on the canvas keeps the image's proportions; hold Shift to stretch freely and Alt to resize from the centre. Edge handles resize from one side. Double-click the image to pan and zoom the crop; press Esc when done.
              </p>
           </div>
       )}
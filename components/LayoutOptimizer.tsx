@@ -0,0 +1,84 @@
+import React, { useMemo, useState } from 'react';
+import { Wand2 } from 'lucide-react';
+import { PaperOrientation, PaperSize, PosterConfig, PrinterProfile, Unit } from '../types';
+import { LayoutOption, rankLayouts } from '../utils/layoutOptimizer';
+
+const OPTIONS_SHOWN = 6;
+
+// Areas are in the config's unit squared; show them at a readable scale
+const formatArea = (area: number, unit: Unit) =>
+  unit === Unit.MM ? `${(area / 1_000_000).toFixed(2)} m²` : `${(area / 144).toFixed(1)} ft²`;
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+interface LayoutOptimizerProps {
+  config: PosterConfig;
+  papers: PaperSize[];
+  printer: PrinterProfile | null;
+  onApply: (option: LayoutOption) => void;
+}
+
+export const LayoutOptimizer: React.FC<LayoutOptimizerProps> = ({ config, papers, printer, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const options = useMemo(
+    () => (isOpen ? rankLayouts(config, papers, printer).slice(0, OPTIONS_SHOWN) : []),
+    [isOpen, config, papers, printer]
+  );
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full flex items-center justify-center gap-1.5 py-1.5 border border-slate-200 rounded text-xs text-slate-600 hover:border-slate-300 hover:bg-slate-50"
+      >
+        <Wand2 size={14}/> Find the best paper for this size
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 p-2 bg-slate-50 rounded border border-slate-200">
+        <div className="flex justify-between items-center">
+            <span className="text-xs font-medium text-slate-500">Fewest sheets first, then least waste</span>
+            <button onClick={() => setIsOpen(false)} className="text-[10px] text-slate-400 hover:text-slate-600">
+                Close
+            </button>
+        </div>
+        {options.length === 0 && (
+            <p className="text-[11px] text-slate-500">No paper fits these margins and overlap.</p>
+        )}
+        {options.map(option => {
+            const isCurrent = option.paper.id === config.paperId && option.orientation === config.orientation;
+            return (
+                <div
+                    key={`${option.paper.id}-${option.orientation}`}
+                    className={`p-2 rounded border bg-white ${isCurrent ? 'border-brand-500' : 'border-slate-200'}`}
+                >
+                    <div className="flex justify-between items-center gap-2">
+                        <span className="text-xs font-medium text-slate-800 truncate">
+                            {option.paper.name}, {option.orientation === PaperOrientation.PORTRAIT ? 'portrait' : 'landscape'}
+                        </span>
+                        {isCurrent ? (
+                            <span className="text-[10px] text-brand-700">Current</span>
+                        ) : (
+                            <button
+                                onClick={() => onApply(option)}
+                                className="px-2 py-0.5 text-[10px] rounded bg-brand-600 text-white hover:bg-brand-700"
+                            >
+                                Apply
+                            </button>
+                        )}
+                    </div>
+                    <div className="mt-1 grid grid-cols-2 gap-x-2 text-[10px] text-slate-500">
+                        <span>{option.rows} × {option.cols} grid, {option.sheets} {option.sheets === 1 ? 'sheet' : 'sheets'}</span>
+                        <span>Ink coverage {formatPercent(option.coverage)}</span>
+                        <span className="col-span-2">
+                            Wasted {formatArea(option.wastedArea, config.unit)} ({formatPercent(option.wasteShare)} of the paper)
+                        </span>
+                    </div>
+                </div>
+            );
+        })}
+    </div>
+  );
+};
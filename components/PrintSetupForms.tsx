@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { PaperSize, PrinterProfile, Unit } from '../types';
+import { MM_PER_INCH } from '../utils/layout';
+
+// Lengths are typed in the poster's unit and stored in mm, like the built-in paper sizes
+const toMm = (value: string, unit: Unit) => Number(value) * (unit === Unit.INCH ? MM_PER_INCH : 1);
+const fromMm = (mm: number, unit: Unit) => String(unit === Unit.INCH ? parseFloat((mm / MM_PER_INCH).toFixed(2)) : mm);
+
+const inputClass = "w-full mt-1 border border-slate-300 rounded-md px-2 py-1.5 text-sm";
+
+const FormButtons: React.FC<{ canSave: boolean; onSave: () => void; onCancel: () => void }> = ({ canSave, onSave, onCancel }) => (
+  <div className="flex gap-2">
+      <button
+          onClick={onCancel}
+          className="flex-1 py-1.5 text-xs rounded border border-slate-200 text-slate-600 hover:bg-slate-50"
+      >
+          Cancel
+      </button>
+      <button
+          onClick={onSave}
+          disabled={!canSave}
+          className="flex-1 py-1.5 text-xs rounded bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-40"
+      >
+          Save
+      </button>
+  </div>
+);
+
+interface CustomPaperFormProps {
+  unit: Unit;
+  onSave: (paper: PaperSize) => void;
+  onCancel: () => void;
+}
+
+export const CustomPaperForm: React.FC<CustomPaperFormProps> = ({ unit, onSave, onCancel }) => {
+  const [name, setName] = useState('');
+  const [width, setWidth] = useState('');
+  const [height, setHeight] = useState('');
+  const canSave = name.trim() !== '' && Number(width) > 0 && Number(height) > 0;
+
+  return (
+    <div className="space-y-2 p-2 bg-slate-50 rounded border border-slate-200">
+        <div>
+            <label className="text-xs font-medium text-slate-500">Name</label>
+            <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Long roll cut"
+                className={inputClass}
+            />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+            <div>
+                <label className="text-xs font-medium text-slate-500">Width ({unit})</label>
+                <input type="number" min="0" step="0.1" value={width} onChange={(e) => setWidth(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+                <label className="text-xs font-medium text-slate-500">Height ({unit})</label>
+                <input type="number" min="0" step="0.1" value={height} onChange={(e) => setHeight(e.target.value)} className={inputClass} />
+            </div>
+        </div>
+        <FormButtons
+            canSave={canSave}
+            onCancel={onCancel}
+            onSave={() => onSave({
+                id: `custom-${crypto.randomUUID()}`,
+                name: name.trim(),
+                width: toMm(width, unit),
+                height: toMm(height, unit),
+                category: 'Custom',
+            })}
+        />
+    </div>
+  );
+};
+
+// Most inkjets leave about this much unprinted, with a little more at the trailing edge
+const DEFAULT_PRINTER_MARGINS = { top: 3, right: 3, bottom: 5, left: 3 };
+
+const EDGES = ['top', 'bottom', 'left', 'right'] as const;
+
+interface PrinterProfileFormProps {
+  unit: Unit;
+  onSave: (printer: PrinterProfile) => void;
+  onCancel: () => void;
+}
+
+export const PrinterProfileForm: React.FC<PrinterProfileFormProps> = ({ unit, onSave, onCancel }) => {
+  const [name, setName] = useState('');
+  const [margins, setMargins] = useState(() => ({
+    top: fromMm(DEFAULT_PRINTER_MARGINS.top, unit),
+    right: fromMm(DEFAULT_PRINTER_MARGINS.right, unit),
+    bottom: fromMm(DEFAULT_PRINTER_MARGINS.bottom, unit),
+    left: fromMm(DEFAULT_PRINTER_MARGINS.left, unit),
+  }));
+  const canSave = name.trim() !== '' && EDGES.every(edge => margins[edge] !== '' && Number(margins[edge]) >= 0);
+
+  return (
+    <div className="space-y-2 p-2 bg-slate-50 rounded border border-slate-200">
+        <div>
+            <label className="text-xs font-medium text-slate-500">Printer Name</label>
+            <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Office inkjet"
+                className={inputClass}
+            />
+        </div>
+        <p className="text-[10px] text-slate-400">Unprinted edges with the sheet in portrait, as it comes out of the printer.</p>
+        <div className="grid grid-cols-2 gap-2">
+            {EDGES.map(edge => (
+                <div key={edge}>
+                    <label className="text-xs font-medium text-slate-500 capitalize">{edge} ({unit})</label>
+                    <input
+                        type="number" min="0" step="0.1"
+                        value={margins[edge]}
+                        onChange={(e) => setMargins(m => ({ ...m, [edge]: e.target.value }))}
+                        className={inputClass}
+                    />
+                </div>
+            ))}
+        </div>
+        <FormButtons
+            canSave={canSave}
+            onCancel={onCancel}
+            onSave={() => onSave({
+                id: crypto.randomUUID(),
+                name: name.trim(),
+                margins: {
+                    top: toMm(margins.top, unit),
+                    right: toMm(margins.right, unit),
+                    bottom: toMm(margins.bottom, unit),
+                    left: toMm(margins.left, unit),
+                },
+            })}
+        />
+    </div>
+  );
+};
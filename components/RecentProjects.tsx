@@ -0,0 +1,70 @@
+import React from 'react';
+import { Clock, Trash2, X } from 'lucide-react';
+import { RecentProject } from '../utils/projectStore';
+
+interface RecentProjectsProps {
+  projects: RecentProject[];
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const RecentProjects: React.FC<RecentProjectsProps> = ({
+  projects,
+  currentProjectId,
+  onOpen,
+  onDelete,
+  onClose
+}) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+        <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 relative animate-in fade-in zoom-in duration-200">
+            <button
+                onClick={onClose}
+                className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full p-1 transition-all"
+            >
+                <X size={20}/>
+            </button>
+            <div className="flex items-center gap-3 mb-5">
+                <div className="bg-brand-100 text-brand-600 p-2 rounded-lg">
+                     <Clock size={24} />
+                </div>
+                <h2 className="text-2xl font-bold text-slate-800">Recent Projects</h2>
+            </div>
+
+            <div className="space-y-2">
+                {projects.map(project => (
+                    <div
+                        key={project.id}
+                        className={`p-3 rounded-lg border flex items-center gap-3 ${project.id === currentProjectId ? 'border-brand-500 bg-brand-50' : 'border-slate-200 hover:border-slate-300'}`}
+                    >
+                        <button
+                            onClick={() => onOpen(project.id)}
+                            disabled={project.id === currentProjectId}
+                            className="flex-1 text-left disabled:cursor-default"
+                        >
+                            <p className="text-sm font-medium text-slate-800 truncate">{project.name}</p>
+                            <p className="text-xs text-slate-500">
+                                {new Date(project.updatedAt).toLocaleString()} &middot; {project.layerCount} {project.layerCount === 1 ? 'layer' : 'layers'}
+                                {project.id === currentProjectId && ' · Open now'}
+                            </p>
+                        </button>
+                        {project.id !== currentProjectId && (
+                            <button
+                                onClick={() => onDelete(project.id)}
+                                className="text-slate-400 hover:text-red-600 p-1 rounded hover:bg-red-50"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+                {projects.length === 0 && (
+                    <p className="text-sm text-slate-400 text-center italic py-4">No saved sessions yet. Your work is saved here automatically.</p>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { AlertTriangle, MoveRight, Type, Image as ImageIcon, X } from 'lucide-react';
+import { SeamIssue } from '../utils/seams';
+
+interface SeamWarningsProps {
+  issues: SeamIssue[];
+  onSelect: (layerId: string) => void;
+  onNudge: (issue: SeamIssue) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const SeamWarnings: React.FC<SeamWarningsProps> = ({
+  issues,
+  onSelect,
+  onNudge,
+  onExport,
+  onClose
+}) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+        <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 relative animate-in fade-in zoom-in duration-200">
+            <button
+                onClick={onClose}
+                className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full p-1 transition-all"
+            >
+                <X size={20}/>
+            </button>
+            <div className="flex items-center gap-3 mb-2">
+                <div className="bg-amber-100 text-amber-600 p-2 rounded-lg">
+                     <AlertTriangle size={24} />
+                </div>
+                <h2 className="text-2xl font-bold text-slate-800">Check the Seams</h2>
+            </div>
+            <p className="text-sm text-slate-500 mb-5">
+                These layers will be cut between sheets and may not line up when the poster is assembled.
+            </p>
+
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+                {issues.map(issue => (
+                    <div key={issue.layerId} className="p-3 rounded-lg border border-slate-200 flex items-center gap-3">
+                        <button
+                            onClick={() => onSelect(issue.layerId)}
+                            className="flex-1 flex items-start gap-2 text-left"
+                        >
+                            <span className="text-slate-400 mt-0.5">
+                                {issue.kind === 'text' ? <Type size={14}/> : <ImageIcon size={14}/>}
+                            </span>
+                            <span className="text-sm text-slate-700">{issue.message}</span>
+                        </button>
+                        <button
+                            onClick={() => onNudge(issue)}
+                            disabled={!issue.nudge}
+                            title={issue.nudge ? 'Move the layer just clear of the cut' : 'Too large to fit between cuts; resize it instead'}
+                            className="text-xs font-medium text-brand-600 hover:bg-brand-50 px-2 py-1 rounded flex items-center gap-1 whitespace-nowrap disabled:text-slate-300 disabled:hover:bg-transparent"
+                        >
+                            <MoveRight size={12}/> Nudge off the seam
+                        </button>
+                    </div>
+                ))}
+                {issues.length === 0 && (
+                    <p className="text-sm text-slate-400 text-center italic py-4">All clear. Nothing crosses a cut.</p>
+                )}
+            </div>
+
+            <div className="mt-6 flex justify-end gap-2">
+                <button
+                    onClick={onClose}
+                    className="text-slate-500 hover:text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-100"
+                >
+                    Keep Editing
+                </button>
+                <button
+                    onClick={onExport}
+                    className="bg-brand-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-brand-700 transition-colors"
+                >
+                    {issues.length > 0 ? 'Export Anyway' : 'Export PDF'}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
-import { PaperSize } from './types';
+import {
+  BackgroundType, ImageEncoding, PaperOrientation, PaperSize, PosterBackground, PosterConfig, SlicingMode, Unit
+} from './types';
 
 export const PAPER_SIZES: PaperSize[] = [
   // ISO
@@ -25,4 +27,54 @@ export const COLORS = [
 
 export const FONTS = [
   'Inter', 'Helvetica', 'Times New Roman', 'Courier New', 'Arial', 'Georgia'
-];
\ No newline at end of file
+];
+
+// Sheets most borderless printers can print to the edge
+export const BORDERLESS_PAPER_IDS = ['a3', 'a3plus', 'a4', 'a5', 'a6', 'letter', 'tabloid', '4x6', '5x7', '8x10'];
+
+export const DPI_PRESETS = [
+  { value: 72, label: 'Draft' },
+  { value: 150, label: 'Standard' },
+  { value: 300, label: 'Print' },
+];
+
+// Most conservative browser canvas limits (Safari/iOS caps a canvas at 16.7M pixels)
+export const MAX_CANVAS_AREA = 16777216;
+export const MAX_CANVAS_DIMENSION = 16384;
+
+export const DEFAULT_PAPER_ID = 'letter';
+
+export const DEFAULT_BACKGROUND: PosterBackground = {
+  type: BackgroundType.SOLID,
+  color: '#ffffff',
+  color2: '#3b82f6',
+  angle: 180,
+  imageFit: 'cover',
+  tileWidth: 0.25,
+};
+
+export const DEFAULT_CONFIG: PosterConfig = {
+  mode: SlicingMode.GRID,
+  unit: Unit.INCH,
+  targetWidth: 36, // 3ft in inches
+  targetHeight: 48, // 4ft in inches
+  gridRows: 3,
+  gridCols: 3,
+  paperId: DEFAULT_PAPER_ID,
+  printerId: '',
+  orientation: PaperOrientation.PORTRAIT,
+  margin: 0.5, // 0.5 inch
+  overlap: 0.25, // 0.25 inch
+  bleed: 0,
+  dpi: 150,
+  imageEncoding: ImageEncoding.AUTO,
+  jpegQuality: 0.92,
+  showCutLines: true,
+  cutLineStyle: 'dashed',
+  showPageNumbers: true,
+  showAssemblyMap: true,
+  showGlueTabs: true,
+  showRegistrationMarks: true,
+  showEdgeLabels: true,
+  background: DEFAULT_BACKGROUND
+};
@@ -16,28 +16,136 @@ export interface PaperSize {
   category: 'ISO' | 'ANSI' | 'Photo' | 'Custom';
 }
 
+export interface EdgeMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// A printer's non-printable edges, in mm with the sheet in portrait
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  margins: EdgeMargins;
+}
+
 export enum SlicingMode {
   GRID = 'grid', // 3x3 sheets
   SIZE = 'size', // 1000mm width (auto calcs sheets)
 }
 
+export enum ImageEncoding {
+  AUTO = 'auto', // chosen per tile from its content
+  JPEG = 'jpeg',
+  PNG = 'png', // lossless
+}
+
+export enum ImageFit {
+  COVER = 'cover',
+  CONTAIN = 'contain',
+  STRETCH = 'stretch',
+  CROP = 'crop', // manual pan/zoom inside the frame
+}
+
+// How a text layer's lines use its box
+export enum TextFit {
+  WRAP = 'wrap', // words wrap at the box width and the box grows with the lines
+  FIT = 'fit', // the text shrinks or grows so its lines fill the box
+}
+
+export interface ImageCrop {
+  x: number; // 0-1, share of the horizontal overflow hidden on the left (0.5 = centred)
+  y: number; // 0-1, share of the vertical overflow hidden at the top
+  zoom: number; // >= 1, scale on top of "cover"
+}
+
+// A font file uploaded into the project, embedded as a data URL
+export interface CustomFont {
+  id: string;
+  family: string; // name used in layer styles, taken from the file name
+  data: string;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Sizes other than fontSize are fractions of the font size, so they scale with the text
+export interface TextStyle {
+  color?: string;
+  fontSize?: number; // relative scale
+  fontFamily?: string;
+  fontWeight?: string;
+  fontStyle?: 'normal' | 'italic';
+  underline?: boolean;
+  textAlign?: TextAlign;
+  lineHeight?: number; // multiple of the font size, defaults to 1.2
+  letterSpacing?: number; // extra space after each character
+  strokeColor?: string;
+  strokeWidth?: number; // outline drawn behind the fill, 0 for none
+  shadowColor?: string;
+  shadowOffset?: number; // hard drop shadow down and to the right, 0 for none
+  backgroundColor?: string; // box behind the text, transparent when unset
+}
+
+export enum ShapeKind {
+  RECT = 'rect',
+  ELLIPSE = 'ellipse',
+  LINE = 'line', // across the middle of the box, stroke only
+  ARROW = 'arrow', // pointing right; rotate the layer to aim it
+  BANNER = 'banner', // ribbon with notched ends
+}
+
+export interface ShapeStyle {
+  kind: ShapeKind;
+  fill?: string; // no fill when unset
+  stroke?: string;
+  strokeWidth?: number; // fraction of the poster height, 0 for none
+  cornerRadius?: number; // rectangles only, fraction of the shorter side (0.5 = fully rounded)
+}
+
+// A rectangle within a layer's frame, as fractions (0-1) of the frame
+export interface LayerRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface Layer {
   id: string;
-  type: 'image' | 'text';
-  content: string; // Image URL or Text string
+  type: 'image' | 'text' | 'shape';
+  content: string; // Image URL or Text string, empty for shapes
   x: number; // Percentage 0-1 relative to poster width
   y: number; // Percentage 0-1 relative to poster height
   width: number; // Percentage 0-1 relative to poster width
-  height: number; // Percentage 0-1 relative to poster height (or auto for text)
+  height: number; // Percentage 0-1 relative to poster height (auto for wrapped text)
   rotation: number;
   opacity: number;
-  style?: {
-    color?: string;
-    fontSize?: number; // relative scale
-    fontFamily?: string;
-    fontWeight?: string;
-    backgroundColor?: string;
-  };
+  groupId?: string; // layers sharing a groupId are selected and moved together
+  fit?: ImageFit; // image layers only, defaults to cover
+  crop?: ImageCrop; // used when fit is crop
+  protectedRegion?: LayerRegion; // image layers only, an area that should not be cut (e.g. a face)
+  textFit?: TextFit; // text layers only, defaults to wrap
+  style?: TextStyle;
+  shape?: ShapeStyle; // shape layers only
+}
+
+export enum BackgroundType {
+  SOLID = 'solid',
+  LINEAR = 'linear',
+  RADIAL = 'radial',
+  IMAGE = 'image',
+}
+
+// Fills the whole poster under every layer
+export interface PosterBackground {
+  type: BackgroundType;
+  color: string; // solid fill, and where gradients start
+  color2: string; // where gradients end
+  angle: number; // linear gradients, degrees clockwise from pointing up (like CSS)
+  image?: string; // data URL
+  imageFit: 'cover' | 'tile';
+  tileWidth: number; // tile fit, width of each repeat as a fraction of the poster width
 }
 
 export interface PosterConfig {
@@ -48,10 +156,60 @@ export interface PosterConfig {
   gridRows: number;
   gridCols: number;
   paperId: string;
+  printerId: string; // empty for no printer profile
   orientation: PaperOrientation;
-  margin: number; // in unit
+  margin: number; // in unit, at least this much on every edge
+  bleed: number; // in unit, printed past each sheet's trim into the margin
   overlap: number; // in unit
+  dpi: number; // export resolution, same for both units
+  imageEncoding: ImageEncoding;
+  jpegQuality: number; // 0-1
   showCutLines: boolean;
   cutLineStyle: 'solid' | 'dashed' | 'none';
   showPageNumbers: boolean;
-}
\ No newline at end of file
+  showAssemblyMap: boolean;
+  showGlueTabs: boolean;
+  showRegistrationMarks: boolean;
+  showEdgeLabels: boolean;
+  background: PosterBackground;
+}
+
+// Resolved sheet geometry, all values in the config's unit
+export interface TileLayout {
+  pWidth: number; // sheet width after orientation
+  pHeight: number; // sheet height after orientation
+  margins: EdgeMargins; // unprinted edges of each sheet, the larger of the margin and the printer's
+  printW: number; // printable width per sheet
+  printH: number; // printable height per sheet
+  stepW: number; // horizontal distance between tile origins (printW - overlap)
+  stepH: number; // vertical distance between tile origins (printH - overlap)
+  overlap: number;
+  bleed: number; // usable bleed, never more than the margin
+  posterWidth: number;
+  posterHeight: number;
+  cols: number;
+  rows: number;
+  isPortrait: boolean;
+}
+
+// Where a tile's printable area sits on its page and which part of the poster it shows
+export interface TilePlacement {
+  row: number;
+  col: number;
+  destX: number;
+  destY: number;
+  srcX: number;
+  srcY: number;
+  srcW: number;
+  srcH: number;
+}
+
+export interface RenderEstimate {
+  posterPxW: number;
+  posterPxH: number;
+  tilePxW: number;
+  tilePxH: number;
+  tileBytes: number; // RGBA memory of one tile canvas
+  pdfBytes: number; // rough size of the exported PDF
+  exceedsLimit: boolean;
+}
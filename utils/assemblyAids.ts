@@ -0,0 +1,159 @@
+import jsPDF, { GState } from 'jspdf';
+import { PosterConfig, TileLayout, TilePlacement, Unit } from '../types';
+import { getSharedCorners, getTileLabel, MM_PER_INCH } from './layout';
+
+type Side = 'left' | 'right' | 'top' | 'bottom';
+
+// Labels and tabs in the margin need this much paper between the bleed and the sheet edge
+const MIN_AID_ROOM_MM = 3;
+
+// Margin left outside the bleed on one side of every sheet, in the config's unit
+const getAidRoom = (layout: TileLayout, side: Side) => layout.margins[side] - layout.bleed;
+
+// Whether edge labels (and glue tabs, which sit in the margin without overlap)
+// fit on every inner edge; where they don't, they are left off
+export const hasRoomForMarginAids = (layout: TileLayout, unit: Unit) => {
+  const minRoom = unit === Unit.INCH ? MIN_AID_ROOM_MM / MM_PER_INCH : MIN_AID_ROOM_MM;
+  return (['left', 'right', 'top', 'bottom'] as const).every(side => getAidRoom(layout, side) >= minRoom);
+};
+
+const drawArrow = (doc: jsPDF, x: number, y: number, side: Side, size: number) => {
+  const h = size / 2;
+  switch (side) {
+    case 'right':
+      doc.triangle(x, y - h, x, y + h, x + size, y, 'F');
+      break;
+    case 'left':
+      doc.triangle(x, y - h, x, y + h, x - size, y, 'F');
+      break;
+    case 'bottom':
+      doc.triangle(x - h, y, x + h, y, x, y + size, 'F');
+      break;
+    case 'top':
+      doc.triangle(x - h, y, x + h, y, x, y - size, 'F');
+      break;
+  }
+};
+
+// jsPDF applies align/baseline offsets before rotating, so rotated labels are centred by hand
+export const centredText = (doc: jsPDF, text: string, cx: number, cy: number, angle: 0 | 90 | 270 = 0) => {
+  const w = doc.getTextWidth(text);
+  const rise = (doc.getFontSize() / doc.internal.scaleFactor) * 0.35;
+  if (angle === 90) {
+    doc.text(text, cx + rise, cy + w / 2, { angle: 90 });
+  } else if (angle === 270) {
+    doc.text(text, cx - rise, cy - w / 2, { angle: 270 });
+  } else {
+    doc.text(text, cx - w / 2, cy + rise);
+  }
+};
+
+export const drawAssemblyAids = (
+  doc: jsPDF,
+  config: PosterConfig,
+  layout: TileLayout,
+  tile: TilePlacement
+) => {
+  const isInch = config.unit === Unit.INCH;
+  // Aid sizes are specified in mm and converted to the document unit
+  const u = (mm: number) => isInch ? mm / MM_PER_INCH : mm;
+
+  const { row, col, destX, destY, srcX, srcY, srcW, srcH } = tile;
+  const hasRight = col < layout.cols - 1;
+  const hasBottom = row < layout.rows - 1;
+
+  // Glue tabs on the inner right/bottom edges. With overlap the tab covers the
+  // shared strip; without it the tab sits in the margin just outside the bleed.
+  if (config.showGlueTabs) {
+    const room = Math.min(getAidRoom(layout, 'right'), getAidRoom(layout, 'bottom'));
+    const tabW = layout.overlap > 0 ? layout.overlap : room >= u(MIN_AID_ROOM_MM) ? Math.min(room, u(10)) : 0;
+    const tabX = layout.overlap > 0 ? destX + layout.stepW : destX + srcW + layout.bleed;
+    const tabY = layout.overlap > 0 ? destY + layout.stepH : destY + srcH + layout.bleed;
+
+    if (tabW > 0) {
+      doc.saveGraphicsState();
+      doc.setGState(new GState({ opacity: 0.2 }));
+      doc.setFillColor(120, 120, 120);
+      if (hasRight) doc.rect(tabX, destY, tabW, srcH, 'F');
+      if (hasBottom) doc.rect(destX, tabY, srcW, tabW, 'F');
+      doc.restoreGraphicsState();
+
+      doc.setFontSize(7);
+      doc.setTextColor(90);
+      if (hasRight) {
+        centredText(doc, 'GLUE HERE', tabX + tabW / 2, destY + srcH / 2, 90);
+      }
+      if (hasBottom) {
+        centredText(doc, 'GLUE HERE', destX + srcW / 2, tabY + tabW / 2);
+      }
+    }
+  }
+
+  // Crosshairs at every seam intersection that falls on this tile, kept inside the
+  // trim so they are neither cut off with the bleed nor lost past the printable area
+  if (config.showRegistrationMarks) {
+    const arm = u(4);
+    const radius = u(1.5);
+    const eps = 1e-6;
+    doc.saveGraphicsState();
+    doc.rect(destX, destY, srcW, srcH, null);
+    doc.clip();
+    doc.discardPath();
+    doc.setLineDashPattern([], 0);
+    doc.setLineWidth(u(0.2));
+    doc.setDrawColor(0, 0, 0);
+
+    getSharedCorners(layout).forEach(({ x, y }) => {
+      if (x < srcX - eps || x > srcX + srcW + eps || y < srcY - eps || y > srcY + srcH + eps) return;
+      const px = destX + (x - srcX);
+      const py = destY + (y - srcY);
+      doc.line(px - arm, py, px + arm, py);
+      doc.line(px, py - arm, px, py + arm);
+      doc.circle(px, py, radius, 'S');
+    });
+    doc.restoreGraphicsState();
+  }
+
+  // "joins B3" labels centred on each inner edge, placed in the margin outside the bleed
+  if (config.showEdgeLabels) {
+    const arrow = u(2);
+    doc.setFontSize(7);
+    doc.setTextColor(60);
+    doc.setFillColor(60, 60, 60);
+
+    const neighbours: { side: Side; label: string }[] = [];
+    if (col > 0) neighbours.push({ side: 'left', label: getTileLabel(row, col - 1) });
+    if (hasRight) neighbours.push({ side: 'right', label: getTileLabel(row, col + 1) });
+    if (row > 0) neighbours.push({ side: 'top', label: getTileLabel(row - 1, col) });
+    if (hasBottom) neighbours.push({ side: 'bottom', label: getTileLabel(row + 1, col) });
+
+    neighbours.forEach(({ side, label }) => {
+      const room = getAidRoom(layout, side);
+      if (room < u(MIN_AID_ROOM_MM)) return;
+      const gap = layout.bleed + Math.min(room / 2, u(4));
+      const text = `joins ${label}`;
+      const textW = doc.getTextWidth(text);
+      const midX = destX + srcW / 2;
+      const midY = destY + srcH / 2;
+
+      switch (side) {
+        case 'right':
+          centredText(doc, text, destX + srcW + gap, midY, 270);
+          drawArrow(doc, destX + srcW + gap - arrow / 2, midY - textW / 2 - u(2), 'right', arrow);
+          break;
+        case 'left':
+          centredText(doc, text, destX - gap, midY, 90);
+          drawArrow(doc, destX - gap + arrow / 2, midY + textW / 2 + u(2), 'left', arrow);
+          break;
+        case 'top':
+          drawArrow(doc, midX - textW / 2 - u(2), destY - gap + arrow / 2, 'top', arrow);
+          centredText(doc, text, midX, destY - gap);
+          break;
+        case 'bottom':
+          drawArrow(doc, midX - textW / 2 - u(2), destY + srcH + gap - arrow / 2, 'bottom', arrow);
+          centredText(doc, text, midX, destY + srcH + gap);
+          break;
+      }
+    });
+  }
+};
@@ -0,0 +1,83 @@
+import jsPDF from 'jspdf';
+import { PaperSize, PosterConfig, TileLayout, Unit } from '../types';
+import { getTileLabel, MM_PER_INCH } from './layout';
+import { centredText } from './assemblyAids';
+
+const formatLength = (value: number, unit: Unit) =>
+  unit === Unit.MM ? `${Math.round(value)} mm` : `${value.toFixed(2)} in`;
+
+// Cover page with a thumbnail of the whole poster, the tile grid and the key numbers
+export const drawAssemblyMap = (
+  doc: jsPDF,
+  config: PosterConfig,
+  layout: TileLayout,
+  paperSize: PaperSize,
+  thumbnail: HTMLCanvasElement
+) => {
+  const isInch = config.unit === Unit.INCH;
+  const u = (mm: number) => isInch ? mm / MM_PER_INCH : mm;
+  const { pWidth, pHeight, posterWidth, posterHeight, cols, rows, stepW, stepH, printW, printH } = layout;
+
+  const pad = Math.max(...Object.values(layout.margins), u(10));
+  let cursorY = pad;
+
+  doc.setTextColor(30);
+  doc.setFontSize(18);
+  doc.text('Assembly Map', pad, cursorY + u(6));
+  cursorY += u(12);
+
+  // Details
+  const details = [
+    `Finished size: ${formatLength(posterWidth, config.unit)} x ${formatLength(posterHeight, config.unit)}`,
+    `Paper: ${paperSize.name} (${layout.isPortrait ? 'Portrait' : 'Landscape'})`,
+    `Sheets: ${rows * cols} (${rows} rows x ${cols} cols)`,
+    `Overlap: ${layout.overlap > 0 ? formatLength(layout.overlap, config.unit) : 'None'}`,
+  ];
+  doc.setFontSize(10);
+  doc.setTextColor(80);
+  details.forEach(line => {
+    doc.text(line, pad, cursorY + u(4));
+    cursorY += u(6);
+  });
+  cursorY += u(4);
+
+  // Fit the thumbnail into the rest of the page
+  const boxW = pWidth - pad * 2;
+  const boxH = pHeight - cursorY - pad;
+  const fit = Math.min(boxW / posterWidth, boxH / posterHeight);
+  const mapW = posterWidth * fit;
+  const mapH = posterHeight * fit;
+  const mapX = pad + (boxW - mapW) / 2;
+  const mapY = cursorY;
+
+  doc.addImage(thumbnail.toDataURL('image/jpeg', 0.85), 'JPEG', mapX, mapY, mapW, mapH);
+
+  doc.setLineDashPattern([], 0);
+  doc.setLineWidth(u(0.3));
+  doc.setDrawColor(40, 40, 40);
+  doc.rect(mapX, mapY, mapW, mapH);
+
+  // Tile cells, labelled the same way as the tile pages
+  const cellPt = Math.min(printW, printH) * fit * doc.internal.scaleFactor;
+  const labelSize = Math.max(6, Math.min(14, cellPt * 0.3));
+  doc.setFontSize(labelSize);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cellX = mapX + c * stepW * fit;
+      const cellY = mapY + r * stepH * fit;
+      const cellW = Math.min(printW, posterWidth - c * stepW) * fit;
+      const cellH = Math.min(printH, posterHeight - r * stepH) * fit;
+
+      doc.setDrawColor(14, 165, 233);
+      doc.rect(cellX, cellY, cellW, cellH);
+
+      const label = getTileLabel(r, c);
+      const labelW = doc.getTextWidth(label) + u(2);
+      const labelH = (labelSize / doc.internal.scaleFactor) * 1.2;
+      doc.setFillColor(255, 255, 255);
+      doc.rect(cellX + cellW / 2 - labelW / 2, cellY + cellH / 2 - labelH / 2, labelW, labelH, 'F');
+      doc.setTextColor(3, 105, 161);
+      centredText(doc, label, cellX + cellW / 2, cellY + cellH / 2);
+    }
+  }
+};
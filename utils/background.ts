@@ -0,0 +1,83 @@
+import { CSSProperties } from 'react';
+import { BackgroundType, ImageFit, PosterBackground } from '../types';
+import { getImageDrawRect } from './geometry';
+
+// Ends of a CSS linear gradient at `angle` across a width x height box
+const getGradientLine = (angle: number, width: number, height: number) => {
+  const rad = (angle * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = -Math.cos(rad);
+  // CSS stretches the line so the corners get the end colours
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  return {
+    x0: width / 2 - dx * half, y0: height / 2 - dy * half,
+    x1: width / 2 + dx * half, y1: height / 2 + dy * half,
+  };
+};
+
+// CSS for the canvas preview, matching drawPosterBackground
+export const getBackgroundStyle = (background: PosterBackground): CSSProperties => {
+  switch (background.type) {
+    case BackgroundType.LINEAR:
+      return { backgroundImage: `linear-gradient(${background.angle}deg, ${background.color}, ${background.color2})` };
+    case BackgroundType.RADIAL:
+      return { backgroundImage: `radial-gradient(circle farthest-corner, ${background.color}, ${background.color2})` };
+    case BackgroundType.IMAGE:
+      if (!background.image) break;
+      return {
+        backgroundColor: background.color,
+        backgroundImage: `url(${background.image})`,
+        backgroundSize: background.imageFit === 'tile' ? `${background.tileWidth * 100}% auto` : 'cover',
+        backgroundPosition: background.imageFit === 'tile' ? '0 0' : 'center',
+        backgroundRepeat: background.imageFit === 'tile' ? 'repeat' : 'no-repeat',
+      };
+  }
+  return { backgroundColor: background.color };
+};
+
+// Fills a poster of width x height pixels. The context may be translated to render
+// only part of the poster; everything outside the canvas is clipped away.
+// Colours and gradients carry on for `bleed` pixels past the poster's edges.
+export const drawPosterBackground = (
+  ctx: CanvasRenderingContext2D,
+  background: PosterBackground,
+  width: number,
+  height: number,
+  images: Map<string, HTMLImageElement>,
+  bleed = 0
+) => {
+  ctx.save();
+  if (background.type === BackgroundType.LINEAR) {
+    const { x0, y0, x1, y1 } = getGradientLine(background.angle, width, height);
+    const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+    gradient.addColorStop(0, background.color);
+    gradient.addColorStop(1, background.color2);
+    ctx.fillStyle = gradient;
+  } else if (background.type === BackgroundType.RADIAL) {
+    const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+    gradient.addColorStop(0, background.color);
+    gradient.addColorStop(1, background.color2);
+    ctx.fillStyle = gradient;
+  } else {
+    ctx.fillStyle = background.color;
+  }
+  ctx.fillRect(-bleed, -bleed, width + bleed * 2, height + bleed * 2);
+
+  const img = background.type === BackgroundType.IMAGE && background.image ? images.get(background.image) : undefined;
+  if (img && img.naturalWidth > 0) {
+    if (background.imageFit === 'tile') {
+      const pattern = ctx.createPattern(img, 'repeat');
+      if (pattern) {
+        // Repeats start at the poster's top-left corner, like the CSS background
+        const scale = (background.tileWidth * width) / img.naturalWidth;
+        pattern.setTransform(new DOMMatrix().scale(scale));
+        ctx.fillStyle = pattern;
+        ctx.fillRect(0, 0, width, height);
+      }
+    } else {
+      const rect = getImageDrawRect(img.naturalWidth, img.naturalHeight, width, height, ImageFit.COVER);
+      ctx.drawImage(img, rect.x, rect.y, rect.w, rect.h);
+    }
+  }
+  ctx.restore();
+};
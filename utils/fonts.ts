@@ -0,0 +1,74 @@
+import jsPDF from 'jspdf';
+import { CustomFont } from '../types';
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff';
+const FONT_FILE_PATTERN = /\.(ttf|otf|woff)$/i;
+
+// FontFace loads, keyed by font id, so each font is registered with the browser once
+const registered = new Map<string, Promise<FontFace>>();
+
+export const registerFont = (font: CustomFont) => {
+  let loading = registered.get(font.id);
+  if (!loading) {
+    const face = new FontFace(font.family, `url(${font.data})`);
+    loading = face.load().then(loaded => {
+      document.fonts.add(loaded);
+      return loaded;
+    });
+    loading.catch(() => registered.delete(font.id));
+    registered.set(font.id, loading);
+  }
+  return loading;
+};
+
+// Takes a font out of the preview, e.g. when another file replaces its family
+export const unregisterFont = (font: CustomFont) => {
+  const loading = registered.get(font.id);
+  if (!loading) return;
+  registered.delete(font.id);
+  loading.then(face => document.fonts.delete(face)).catch(() => {});
+};
+
+// Resolves once every project font can be drawn, so text isn't rendered in a fallback font
+export const loadFonts = async (fonts: CustomFont[]) => {
+  await Promise.all(fonts.map(registerFont));
+  await document.fonts.ready;
+};
+
+export const readFontFile = (file: File) => new Promise<CustomFont>((resolve, reject) => {
+  if (!FONT_FILE_PATTERN.test(file.name)) {
+    reject(new Error("Please choose a TTF, OTF or WOFF font file."));
+    return;
+  }
+  const reader = new FileReader();
+  reader.onload = () => {
+    const font: CustomFont = {
+      id: crypto.randomUUID(),
+      family: file.name.replace(FONT_FILE_PATTERN, '').replace(/[-_]+/g, ' ').replace(/["\\]/g, '').trim(),
+      data: reader.result as string,
+    };
+    registerFont(font)
+      .then(() => resolve(font))
+      .catch(() => reject(new Error(`"${file.name}" could not be read as a font.`)));
+  };
+  reader.onerror = () => reject(new Error(`Could not read "${file.name}".`));
+  reader.readAsDataURL(file);
+});
+
+const getBase64 = (font: CustomFont) => font.data.slice(font.data.indexOf(',') + 1);
+
+// jsPDF can only embed TrueType outlines. CFF-based OTF and WOFF files are
+// drawn as images in the PDF instead, which still matches the preview.
+export const canEmbedFont = (font: CustomFont) => {
+  const header = atob(getBase64(font).slice(0, 8)).slice(0, 4);
+  return header === '\x00\x01\x00\x00' || header === 'true';
+};
+
+// Makes the project's embeddable fonts available to doc.setFont under their family name
+export const addFontsToPdf = (doc: jsPDF, fonts: CustomFont[]) => {
+  fonts.filter(canEmbedFont).forEach(font => {
+    const fileName = `${font.id}.ttf`;
+    doc.addFileToVFS(fileName, getBase64(font));
+    doc.addFont(fileName, font.family, 'normal');
+  });
+};
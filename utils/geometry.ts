@@ -0,0 +1,171 @@
+import { ImageCrop, ImageFit, Layer } from '../types';
+import { getTextBlockHeight } from './pdfText';
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Axis-aligned bounds of a layer's rotated box, scaled to a poster of width x height
+export const getLayerBounds = (layer: Layer, width: number, height: number): Bounds => {
+  const lx = layer.x * width;
+  const ly = layer.y * height;
+  const lw = layer.width * width;
+  const lh = layer.height * height;
+  const cx = lx + lw / 2;
+  const cy = ly + lh / 2;
+
+  const rad = (layer.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const halfW = (lw * cos + lh * sin) / 2;
+  const halfH = (lw * sin + lh * cos) / 2;
+
+  return { minX: cx - halfW, minY: cy - halfH, maxX: cx + halfW, maxY: cy + halfH };
+};
+
+// Like getLayerBounds, but wrapped text layers use the height of their lines as drawn
+export const getVisualBounds = (layer: Layer, width: number, height: number) =>
+  getLayerBounds(layer.type === 'text' ? { ...layer, height: getTextBlockHeight(layer, width, height) } : layer, width, height);
+
+export const unionBounds = (bounds: Bounds[]): Bounds => ({
+  minX: Math.min(...bounds.map(b => b.minX)),
+  minY: Math.min(...bounds.map(b => b.minY)),
+  maxX: Math.max(...bounds.map(b => b.maxX)),
+  maxY: Math.max(...bounds.map(b => b.maxY)),
+});
+
+export const boundsIntersect = (a: Bounds, b: Bounds) =>
+  a.minX < b.maxX && a.maxX > b.minX && a.minY < b.maxY && a.maxY > b.minY;
+
+export const DEFAULT_CROP: ImageCrop = { x: 0.5, y: 0.5, zoom: 1 };
+export const MAX_CROP_ZOOM = 10;
+
+// Where an image of imgW x imgH is drawn relative to its frame's top-left corner.
+// Shared by the canvas preview and the PDF renderer so both place images identically.
+export const getImageDrawRect = (
+  imgW: number,
+  imgH: number,
+  frameW: number,
+  frameH: number,
+  fit: ImageFit = ImageFit.COVER,
+  crop: ImageCrop = DEFAULT_CROP
+) => {
+  if (fit === ImageFit.STRETCH || imgW <= 0 || imgH <= 0) {
+    return { x: 0, y: 0, w: frameW, h: frameH };
+  }
+
+  const coverScale = Math.max(frameW / imgW, frameH / imgH);
+  const scale = fit === ImageFit.CONTAIN
+    ? Math.min(frameW / imgW, frameH / imgH)
+    : fit === ImageFit.CROP ? coverScale * Math.max(1, crop.zoom) : coverScale;
+
+  const w = imgW * scale;
+  const h = imgH * scale;
+  const posX = fit === ImageFit.CROP ? crop.x : 0.5;
+  const posY = fit === ImageFit.CROP ? crop.y : 0.5;
+
+  // Contain leaves negative overflow, which centres it the same way
+  return { x: (frameW - w) * posX, y: (frameH - h) * posY, w, h };
+};
+
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+// Which way each handle moves the layer's edges in its own (unrotated) frame
+const HANDLE_DIRECTIONS: Record<ResizeHandle, { sx: number; sy: number }> = {
+  n: { sx: 0, sy: -1 },
+  s: { sx: 0, sy: 1 },
+  e: { sx: 1, sy: 0 },
+  w: { sx: -1, sy: 0 },
+  nw: { sx: -1, sy: -1 },
+  ne: { sx: 1, sy: -1 },
+  sw: { sx: -1, sy: 1 },
+  se: { sx: 1, sy: 1 },
+};
+
+interface ResizeOptions {
+  keepAspect: boolean; // scale both sides together
+  fromCenter: boolean; // grow symmetrically around the centre instead of the opposite edge
+  minSize: number; // as a fraction of the poster, like the layer box
+}
+
+// Resizes a layer box by a screen-space drag of (deltaX, deltaY), measured in the
+// same units as width/height (poster pixels). The drag is projected into the layer's
+// rotated frame, and the opposite edge or corner stays put on screen.
+export const resizeLayerBox = (
+  layer: Layer,
+  handle: ResizeHandle,
+  deltaX: number,
+  deltaY: number,
+  width: number,
+  height: number,
+  { keepAspect, fromCenter, minSize }: ResizeOptions
+): Pick<Layer, 'x' | 'y' | 'width' | 'height'> => {
+  const { sx, sy } = HANDLE_DIRECTIONS[handle];
+  const w0 = layer.width * width;
+  const h0 = layer.height * height;
+  const cx0 = layer.x * width + w0 / 2;
+  const cy0 = layer.y * height + h0 / 2;
+
+  const rad = (layer.rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const localX = deltaX * cos + deltaY * sin;
+  const localY = -deltaX * sin + deltaY * cos;
+
+  const growth = fromCenter ? 2 : 1;
+  let w = w0 + sx * localX * growth;
+  let h = h0 + sy * localY * growth;
+  const minW = minSize * width;
+  const minH = minSize * height;
+
+  if (keepAspect) {
+    // Follow whichever side the drag changed most; edge handles drive their own axis
+    const ratioW = w / w0;
+    const ratioH = h / h0;
+    let scale = sx === 0 ? ratioH : sy === 0 ? ratioW
+      : Math.abs(ratioW - 1) > Math.abs(ratioH - 1) ? ratioW : ratioH;
+    scale = Math.max(scale, minW / w0, minH / h0);
+    w = w0 * scale;
+    h = h0 * scale;
+  } else {
+    w = Math.max(minW, w);
+    h = Math.max(minH, h);
+  }
+
+  // Shift the centre so the anchor stays fixed. Axes without a handle grow evenly.
+  const shiftLocalX = fromCenter ? 0 : (sx * (w - w0)) / 2;
+  const shiftLocalY = fromCenter ? 0 : (sy * (h - h0)) / 2;
+  const cx = cx0 + shiftLocalX * cos - shiftLocalY * sin;
+  const cy = cy0 + shiftLocalX * sin + shiftLocalY * cos;
+
+  return {
+    x: (cx - w / 2) / width,
+    y: (cy - h / 2) / height,
+    width: w / width,
+    height: h / height,
+  };
+};
+
+export const ROTATION_SNAP_DEGREES = 15;
+
+// Layer rotation for a drag around `pivot` that started at `start`, in whole degrees
+// within (-180, 180]. With `snap`, the result is a multiple of ROTATION_SNAP_DEGREES.
+export const getDragRotation = (
+  startRotation: number,
+  pivot: { x: number; y: number },
+  start: { x: number; y: number },
+  current: { x: number; y: number },
+  snap: boolean
+) => {
+  const startAngle = Math.atan2(start.y - pivot.y, start.x - pivot.x);
+  const angle = Math.atan2(current.y - pivot.y, current.x - pivot.x);
+  let rotation = startRotation + ((angle - startAngle) * 180) / Math.PI;
+  rotation = snap
+    ? Math.round(rotation / ROTATION_SNAP_DEGREES) * ROTATION_SNAP_DEGREES
+    : Math.round(rotation);
+  rotation = ((rotation % 360) + 360) % 360;
+  return rotation > 180 ? rotation - 360 : rotation;
+};
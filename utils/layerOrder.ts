@@ -0,0 +1,32 @@
+import { Layer } from '../types';
+
+// Layers are stored bottom to top: index 0 is drawn first, the last layer is in front
+export type StackAction = 'forward' | 'backward' | 'front' | 'back';
+
+export const moveLayerTo = (layers: Layer[], id: string, toIndex: number) => {
+  const from = layers.findIndex(l => l.id === id);
+  if (from === -1) return layers;
+  const to = Math.max(0, Math.min(layers.length - 1, toIndex));
+  if (from === to) return layers;
+
+  const next = [...layers];
+  const [layer] = next.splice(from, 1);
+  next.splice(to, 0, layer);
+  return next;
+};
+
+export const applyStackAction = (layers: Layer[], id: string, action: StackAction) => {
+  const index = layers.findIndex(l => l.id === id);
+  if (index === -1) return layers;
+
+  switch (action) {
+    case 'forward':
+      return moveLayerTo(layers, id, index + 1);
+    case 'backward':
+      return moveLayerTo(layers, id, index - 1);
+    case 'front':
+      return moveLayerTo(layers, id, layers.length - 1);
+    case 'back':
+      return moveLayerTo(layers, id, 0);
+  }
+};
@@ -0,0 +1,146 @@
+import {
+  EdgeMargins, ImageEncoding, PosterConfig, PaperSize, PaperOrientation, PrinterProfile, RenderEstimate, TileLayout, Unit
+} from '../types';
+import { MAX_CANVAS_AREA, MAX_CANVAS_DIMENSION } from '../constants';
+import { getPrinterMargins } from './printSetup';
+
+export const MM_PER_INCH = 25.4;
+
+// Number of tiles needed to cover `length` when each tile shows `print`
+// and consecutive tiles share `overlap` of content.
+const countTiles = (length: number, print: number, overlap: number) => {
+  if (length <= print || print - overlap <= 0) return 1;
+  return Math.ceil((length - overlap) / (print - overlap));
+};
+
+export const getTileLayout = (
+  config: PosterConfig,
+  paperSize: PaperSize,
+  printer: PrinterProfile | null = null
+): TileLayout => {
+  const isInch = config.unit === Unit.INCH;
+
+  // Constants are in mm, so we convert to inches if needed
+  const paperWidth = isInch ? paperSize.width / MM_PER_INCH : paperSize.width;
+  const paperHeight = isInch ? paperSize.height / MM_PER_INCH : paperSize.height;
+
+  const isPortrait = config.orientation === PaperOrientation.PORTRAIT;
+  const pWidth = isPortrait ? paperWidth : paperHeight;
+  const pHeight = isPortrait ? paperHeight : paperWidth;
+
+  // Each edge keeps the configured margin, or more where the printer can't reach
+  const printerMargins = printer && getPrinterMargins(printer, config.orientation);
+  const edge = (side: keyof EdgeMargins) => Math.max(
+    config.margin,
+    printerMargins ? (isInch ? printerMargins[side] / MM_PER_INCH : printerMargins[side]) : 0
+  );
+  const margins = { top: edge('top'), right: edge('right'), bottom: edge('bottom'), left: edge('left') };
+
+  // Printable area
+  const printW = pWidth - margins.left - margins.right;
+  const printH = pHeight - margins.top - margins.bottom;
+
+  const overlap = Math.max(0, config.overlap);
+  // Bleed is printed in the margin, so it can't reach past the edge of the sheet
+  const bleed = Math.min(Math.max(0, config.bleed), Math.max(0, Math.min(...Object.values(margins))));
+
+  // Each tile after the first repeats `overlap` of its neighbour's content
+  const stepW = printW - overlap;
+  const stepH = printH - overlap;
+
+  let posterWidth = config.targetWidth;
+  let posterHeight = config.targetHeight;
+  let cols: number;
+  let rows: number;
+
+  // In Grid Mode, we want the poster to FILL the grid.
+  if (config.mode === 'grid') {
+    cols = config.gridCols;
+    rows = config.gridRows;
+    posterWidth = printW + (cols - 1) * stepW;
+    posterHeight = printH + (rows - 1) * stepH;
+  } else {
+    cols = countTiles(posterWidth, printW, overlap);
+    rows = countTiles(posterHeight, printH, overlap);
+  }
+
+  return {
+    pWidth,
+    pHeight,
+    margins,
+    printW,
+    printH,
+    stepW,
+    stepH,
+    overlap,
+    bleed,
+    posterWidth,
+    posterHeight,
+    cols,
+    rows,
+    isPortrait,
+  };
+};
+
+// Rows are lettered (A, B, ... Z, AA) and columns numbered, e.g. "B3"
+export const getTileLabel = (row: number, col: number) => {
+  let letters = '';
+  let n = row;
+  do {
+    letters = String.fromCharCode(65 + (n % 26)) + letters;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return `${letters}${col + 1}`;
+};
+
+// Seam intersections that are shared by more than one tile, in poster coordinates.
+// Each seam sits where the next tile starts, so with overlap it is printed on both sheets.
+export const getSharedCorners = (layout: TileLayout) => {
+  const xs = Array.from({ length: layout.cols }, (_, i) => i * layout.stepW).concat(layout.posterWidth);
+  const ys = Array.from({ length: layout.rows }, (_, i) => i * layout.stepH).concat(layout.posterHeight);
+  const corners: { x: number; y: number }[] = [];
+
+  xs.forEach((x, i) => {
+    ys.forEach((y, j) => {
+      const innerCol = i > 0 && i < layout.cols;
+      const innerRow = j > 0 && j < layout.rows;
+      if (innerCol || innerRow) corners.push({ x, y });
+    });
+  });
+
+  return corners;
+};
+
+// Raster pixels per document unit for the configured DPI
+export const getPixelsPerUnit = (config: PosterConfig) =>
+  config.unit === Unit.INCH ? config.dpi : config.dpi / MM_PER_INCH;
+
+// Pixel dimensions and memory of the export. Tiles are rendered one at a time,
+// so the tile canvas is what has to stay within the browser's limits.
+// `overlayRuns` counts raster runs drawn above vector layers (see getOverlayRunCount).
+export const getRenderEstimate = (config: PosterConfig, layout: TileLayout, overlayRuns = 0): RenderEstimate => {
+  const scale = getPixelsPerUnit(config);
+  // Each tile is rendered with its bleed on every side
+  const tilePxW = Math.ceil(Math.max(0, layout.printW + layout.bleed * 2) * scale);
+  const tilePxH = Math.ceil(Math.max(0, layout.printH + layout.bleed * 2) * scale);
+
+  // Compressed bytes per pixel for photo-like content. PNG is the worst case;
+  // auto falls back to JPEG for photos, which dominate the file size.
+  // Overlay runs need transparency, so they are PNG whatever the setting.
+  const pngBytesPerPixel = 1.5;
+  const bytesPerPixel = (config.imageEncoding === ImageEncoding.PNG
+    ? pngBytesPerPixel
+    : 0.08 + 0.45 * Math.pow(config.jpegQuality, 3)) + overlayRuns * pngBytesPerPixel;
+  const sheets = layout.rows * layout.cols;
+
+  return {
+    posterPxW: Math.ceil(layout.posterWidth * scale),
+    posterPxH: Math.ceil(layout.posterHeight * scale),
+    tilePxW,
+    tilePxH,
+    tileBytes: tilePxW * tilePxH * 4,
+    pdfBytes: Math.round(sheets * tilePxW * tilePxH * bytesPerPixel),
+    exceedsLimit: tilePxW * tilePxH > MAX_CANVAS_AREA
+      || Math.max(tilePxW, tilePxH) > MAX_CANVAS_DIMENSION,
+  };
+};
@@ -0,0 +1,59 @@
+import { PaperOrientation, PaperSize, PosterConfig, PrinterProfile, SlicingMode } from '../types';
+import { getTileLayout } from './layout';
+
+export interface LayoutOption {
+  paper: PaperSize;
+  orientation: PaperOrientation;
+  rows: number;
+  cols: number;
+  sheets: number;
+  wastedArea: number; // paper that doesn't end up in the poster (margins, overlaps, unused strips), in unit²
+  wasteShare: number; // wastedArea as a share of all the paper used
+  coverage: number; // share of the paper that gets printed, overlaps included
+}
+
+// Printed length of each tile along one axis; the last tile only prints what is left
+const printedLengths = (count: number, print: number, step: number, length: number) =>
+  Array.from({ length: count }, (_, i) => Math.max(0, Math.min(print, length - i * step)));
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Every paper and orientation that can print the target size, fewest sheets first,
+// then least waste. Uses the config's margins, overlap and bleed as they are.
+export const rankLayouts = (
+  config: PosterConfig,
+  papers: PaperSize[],
+  printer: PrinterProfile | null
+): LayoutOption[] => {
+  const options: LayoutOption[] = [];
+
+  papers.forEach(paper => {
+    [PaperOrientation.PORTRAIT, PaperOrientation.LANDSCAPE].forEach(orientation => {
+      // Square sheets look the same both ways
+      if (orientation === PaperOrientation.LANDSCAPE && paper.width === paper.height) return;
+
+      const layout = getTileLayout({ ...config, mode: SlicingMode.SIZE, orientation }, paper, printer);
+      if (layout.stepW <= 0 || layout.stepH <= 0) return;
+
+      const { rows, cols, pWidth, pHeight, posterWidth, posterHeight } = layout;
+      const sheets = rows * cols;
+      const paperArea = sheets * pWidth * pHeight;
+      const printedArea = sum(printedLengths(cols, layout.printW, layout.stepW, posterWidth))
+        * sum(printedLengths(rows, layout.printH, layout.stepH, posterHeight));
+      const wastedArea = Math.max(0, paperArea - posterWidth * posterHeight);
+
+      options.push({
+        paper,
+        orientation,
+        rows,
+        cols,
+        sheets,
+        wastedArea,
+        wasteShare: wastedArea / paperArea,
+        coverage: printedArea / paperArea,
+      });
+    });
+  });
+
+  return options.sort((a, b) => a.sheets - b.sheets || a.wastedArea - b.wastedArea);
+};
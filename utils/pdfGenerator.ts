@@ -1,103 +1,302 @@
 import jsPDF from 'jspdf';
-import { Layer, PosterConfig, PaperSize, PaperOrientation, Unit } from '../types';
+import {
+  CustomFont, Layer, PosterBackground, PosterConfig, PaperSize, PrinterProfile, TilePlacement, Unit
+} from '../types';
+import { getPixelsPerUnit, getRenderEstimate, getTileLabel, getTileLayout } from './layout';
+import { drawAssemblyAids } from './assemblyAids';
+import { drawAssemblyMap } from './assemblyMap';
+import { boundsIntersect, Bounds, getImageDrawRect, getVisualBounds } from './geometry';
+import { encodeTile } from './tileEncoding';
+import { addFontsToPdf, canEmbedFont, loadFonts } from './fonts';
+import {
+  drawVectorText, getCanvasFont, layoutText, UNDERLINE_OFFSET, UNDERLINE_WIDTH
+} from './pdfText';
+import { drawPosterBackground } from './background';
+import { drawVectorShape, getShapePath, isFilledShape, toSvgPath } from './shapes';
+
+interface LayerRun {
+  type: 'raster' | 'vector';
+  layers: Layer[];
+}
+
+// Groups consecutive layers that are rendered the same way, keeping stacking order.
+// The first run is always raster so the poster background sits under everything.
+// Text in project fonts is drawn as an image when the font can't be embedded, or
+// when it is bold or italic: only the uploaded style is embedded, while the canvas
+// synthesises the others.
+const splitIntoRuns = (layers: Layer[], fonts: CustomFont[]): LayerRun[] => {
+  const runs: LayerRun[] = [{ type: 'raster', layers: [] }];
+  for (const layer of layers) {
+    const font = fonts.find(f => f.family === layer.style?.fontFamily);
+    const styled = layer.style?.fontWeight === 'bold' || layer.style?.fontStyle === 'italic';
+    const vector = layer.type === 'shape'
+      || (layer.type === 'text' && !(font && (!canEmbedFont(font) || styled)));
+    const type = vector ? 'vector' : 'raster';
+    const last = runs[runs.length - 1];
+    if (last.type === type) {
+      last.layers.push(layer);
+    } else {
+      runs.push({ type, layers: [layer] });
+    }
+  }
+  return runs;
+};
+
+// Raster runs above the first are drawn over vector layers, so they are always
+// encoded as PNG for transparency; the size estimate accounts for them
+export const getOverlayRunCount = (layers: Layer[], fonts: CustomFont[]) =>
+  splitIntoRuns(layers, fonts).filter((run, index) => index > 0 && run.type === 'raster').length;
+
+const createPosterCanvas = (width: number, height: number, withBackground: boolean) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) throw new Error("Could not create canvas context");
+
+  if (withBackground) {
+    // White paper under any see-through parts of the poster background
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  return canvas;
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => resolve(img);
+  img.src = src;
+  if (img.complete) resolve(img);
+});
+
+// Rotates the context around the layer centre and applies its opacity
+const applyLayerTransform = (ctx: CanvasRenderingContext2D, layer: Layer, width: number, height: number) => {
+  const lx = layer.x * width;
+  const ly = layer.y * height;
+  const lw = layer.width * width;
+  const lh = layer.height * height;
+
+  // Translate to center of layer for rotation
+  const cx = lx + lw / 2;
+  const cy = ly + lh / 2;
+  ctx.translate(cx, cy);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.translate(-cx, -cy);
+  ctx.globalAlpha = layer.opacity;
+
+  return { lx, ly, lw, lh };
+};
+
+const drawRasterLayer = (
+  ctx: CanvasRenderingContext2D,
+  layer: Layer,
+  width: number,
+  height: number,
+  images: Map<string, HTMLImageElement>
+) => {
+  const img = images.get(layer.content);
+  if (layer.type !== 'image' || !img) return;
+  ctx.save();
+  const { lx, ly, lw, lh } = applyLayerTransform(ctx, layer, width, height);
+  // Clip to the frame so cover/crop fits don't spill outside the layer
+  ctx.beginPath();
+  ctx.rect(lx, ly, lw, lh);
+  ctx.clip();
+  const rect = getImageDrawRect(img.naturalWidth, img.naturalHeight, lw, lh, layer.fit, layer.crop);
+  ctx.drawImage(img, lx + rect.x, ly + rect.y, rect.w, rect.h);
+  ctx.restore();
+};
+
+// Renders the layers of one run that touch the given region of the poster.
+// Coordinates are in poster pixels, so the canvas only ever holds the region itself.
+const renderRegion = (
+  run: LayerRun,
+  region: Bounds,
+  posterPxW: number,
+  posterPxH: number,
+  background: PosterBackground | null, // null leaves the region transparent
+  images: Map<string, HTMLImageElement>
+) => {
+  const canvas = createPosterCanvas(
+    Math.max(1, Math.ceil(region.maxX - region.minX)),
+    Math.max(1, Math.ceil(region.maxY - region.minY)),
+    background !== null
+  );
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(-region.minX, -region.minY);
+  if (background) {
+    // Regions with bleed reach past the poster's outer edges; the background fills that too
+    const overhang = Math.max(0, -region.minX, -region.minY, region.maxX - posterPxW, region.maxY - posterPxH);
+    drawPosterBackground(ctx, background, posterPxW, posterPxH, images, overhang);
+  }
+
+  for (const layer of run.layers) {
+    if (!boundsIntersect(getVisualBounds(layer, posterPxW, posterPxH), region)) continue;
+    if (layer.type === 'text') {
+      drawCanvasText(ctx, layer, posterPxW, posterPxH);
+    } else if (layer.type === 'shape') {
+      drawCanvasShape(ctx, layer, posterPxW, posterPxH);
+    } else {
+      drawRasterLayer(ctx, layer, posterPxW, posterPxH, images);
+    }
+  }
+  return canvas;
+};
+
+// Raster shapes, for the assembly map thumbnail
+const drawCanvasShape = (ctx: CanvasRenderingContext2D, layer: Layer, width: number, height: number) => {
+  const shape = layer.shape;
+  if (!shape) return;
+  ctx.save();
+  const { lx, ly, lw, lh } = applyLayerTransform(ctx, layer, width, height);
+  ctx.translate(lx, ly);
+  const path = new Path2D(toSvgPath(getShapePath(shape, lw, lh)));
+  if (isFilledShape(shape) && shape.fill) {
+    ctx.fillStyle = shape.fill;
+    ctx.fill(path);
+  }
+  const strokeWidth = shape.stroke ? (shape.strokeWidth || 0) * height : 0;
+  if (strokeWidth > 0) {
+    ctx.strokeStyle = shape.stroke!;
+    ctx.lineWidth = strokeWidth;
+    ctx.lineJoin = 'round';
+    ctx.stroke(path);
+  }
+  ctx.restore();
+};
+
+// Raster text, for the assembly map thumbnail and fonts that can't be embedded in the PDF
+const drawCanvasText = (ctx: CanvasRenderingContext2D, layer: Layer, width: number, height: number) => {
+  const style = layer.style || {};
+  ctx.save();
+  const text = layoutText(layer, width, height);
+  const { fontSize, lines, baseline, letterSpacing } = text;
+  // Wrapped text boxes are as tall as their lines, which is also what the canvas rotates around
+  const { lx, ly } = applyLayerTransform(ctx, { ...layer, height: text.height / height }, width, height);
+  ctx.font = getCanvasFont(layer, fontSize);
+  ctx.letterSpacing = `${letterSpacing}px`;
+
+  if (style.backgroundColor) {
+    ctx.fillStyle = style.backgroundColor;
+    ctx.fillRect(lx, ly, text.width, text.height);
+  }
+
+  const strokeWidth = style.strokeColor ? (style.strokeWidth || 0) * fontSize : 0;
+  const shadowOffset = style.shadowColor ? (style.shadowOffset || 0) * fontSize : 0;
+  ctx.lineWidth = strokeWidth;
+  ctx.lineJoin = 'round';
+
+  const drawPass = (color: string, offset: number, stroke: boolean) => {
+    lines.forEach(line => {
+      const x = lx + line.x + offset;
+      const y = ly + line.top + baseline + offset;
+      if (stroke) {
+        ctx.strokeStyle = color;
+        ctx.strokeText(line.text, x, y);
+        return;
+      }
+      ctx.fillStyle = color;
+      ctx.fillText(line.text, x, y);
+      if (style.underline && line.text.length > 0) {
+        ctx.fillRect(x, y + fontSize * UNDERLINE_OFFSET, line.width - letterSpacing, fontSize * UNDERLINE_WIDTH);
+      }
+    });
+  };
+
+  // Same order as the PDF: shadow, then the outline behind the fill
+  if (shadowOffset > 0) {
+    if (strokeWidth > 0) drawPass(style.shadowColor!, shadowOffset, true);
+    drawPass(style.shadowColor!, shadowOffset, false);
+  }
+  if (strokeWidth > 0) drawPass(style.strokeColor!, 0, true);
+  drawPass(style.color || '#000000', 0, false);
+  ctx.restore();
+};
+
+// Corner marks along the trim lines, starting just outside the bleed and kept on the page
+const drawCropMarks = (
+  doc: jsPDF,
+  tile: TilePlacement,
+  bleed: number,
+  pageW: number,
+  pageH: number,
+  isInch: boolean
+) => {
+  const { destX, destY, srcW, srcH } = tile;
+  const start = bleed + (isInch ? 0.04 : 1);
+  const maxLength = isInch ? 0.25 : 6;
+  // Room between each trim line and the edge of the page, which differs per edge
+  const xs = [{ x: destX, out: -1, room: destX }, { x: destX + srcW, out: 1, room: pageW - destX - srcW }];
+  const ys = [{ y: destY, out: -1, room: destY }, { y: destY + srcH, out: 1, room: pageH - destY - srcH }];
+
+  doc.setLineWidth(isInch ? 0.01 : 0.25);
+  doc.setLineDashPattern([], 0);
+  doc.setDrawColor(0, 0, 0);
+  xs.forEach(h => ys.forEach(v => {
+    const lengthX = Math.min(maxLength, h.room - start);
+    const lengthY = Math.min(maxLength, v.room - start);
+    if (lengthX > 0) doc.line(h.x + h.out * start, v.y, h.x + h.out * (start + lengthX), v.y);
+    if (lengthY > 0) doc.line(h.x, v.y + v.out * start, h.x, v.y + v.out * (start + lengthY));
+  }));
+};
 
 export const generateTiledPDF = async (
   config: PosterConfig,
   layers: Layer[],
-  paperSize: PaperSize
+  paperSize: PaperSize,
+  fonts: CustomFont[] = [],
+  printer: PrinterProfile | null = null
 ) => {
   const isInch = config.unit === Unit.INCH;
-  
-  // Convert paper size to current unit
-  // Constants are in mm, so we convert to inches if needed
-  const paperWidth = isInch ? paperSize.width / 25.4 : paperSize.width;
-  const paperHeight = isInch ? paperSize.height / 25.4 : paperSize.height;
 
   // 1. Determine Total Dimensions
-  let posterWidth = config.targetWidth;
-  let posterHeight = config.targetHeight;
-
-  // Determine paper dimensions based on orientation
-  const isPortrait = config.orientation === PaperOrientation.PORTRAIT;
-  const pWidth = isPortrait ? paperWidth : paperHeight;
-  const pHeight = isPortrait ? paperHeight : paperWidth;
-
-  // Printable area
-  const printW = pWidth - (config.margin * 2);
-  const printH = pHeight - (config.margin * 2);
+  const layout = getTileLayout(config, paperSize, printer);
+  const {
+    pWidth, pHeight, margins, printW, printH, stepW, stepH, bleed,
+    posterWidth, posterHeight, cols, rows, isPortrait
+  } = layout;
 
   if (printW <= 0 || printH <= 0) {
     throw new Error("Margins are too large for the selected paper size.");
   }
 
-  // If in Grid Mode, calculate the target size based on the grid
-  // In Grid Mode, we want the poster to FILL the grid.
-  if (config.mode === 'grid') {
-    posterWidth = config.gridCols * printW; 
-    posterHeight = config.gridRows * printH;
-  } 
-
-  const cols = Math.ceil(posterWidth / printW);
-  const rows = Math.ceil(posterHeight / printH);
-
-  // 2. Create High-Res Virtual Canvas
-  // Scale factor needs to be higher for inches to maintain resolution
-  // If mm: 1mm ~ 3.78px. Scale 5 => ~19px/mm (~480 dpi equiv relative to base) - High Quality
-  // If in: 1in = 25.4mm. We want comparable resolution. 
-  // Scale 5 * 25.4 ~= 127. Let's use 120 for inches (approx 300 DPI effectively)
-  const scale = isInch ? 120 : 5; 
-  
-  const canvas = document.createElement('canvas');
-  canvas.width = Math.ceil(posterWidth * scale);
-  canvas.height = Math.ceil(posterHeight * scale);
-  const ctx = canvas.getContext('2d');
+  if (stepW <= 0 || stepH <= 0) {
+    throw new Error("Overlap must be smaller than the printable area of the paper.");
+  }
 
-  if (!ctx) throw new Error("Could not create canvas context");
+  // 2. Resolution of the rendered tiles
+  // Pixels per unit from the configured DPI, so mm and inch exports match
+  const scale = getPixelsPerUnit(config);
+
+  if (getRenderEstimate(config, layout).exceedsLimit) {
+    throw new Error("The selected DPI makes each sheet larger than the browser can render. Please lower the export quality.");
+  }
 
-  // Fill background
-  ctx.fillStyle = '#ffffff';
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  // Poster size in pixels at that resolution (never allocated as a single canvas)
+  const canvasW = posterWidth * scale;
+  const canvasH = posterHeight * scale;
 
-  // Draw Layers
+  // Decode every image once up front; tiles are then rendered one at a time,
+  // so canvas memory depends on the paper size rather than the poster size.
+  const images = new Map<string, HTMLImageElement>();
   for (const layer of layers) {
-    ctx.save();
-    const lx = layer.x * canvas.width;
-    const ly = layer.y * canvas.height;
-    const lw = layer.width * canvas.width;
-    const lh = layer.height * canvas.height;
-
-    // Translate to center of layer for rotation
-    const cx = lx + lw / 2;
-    const cy = ly + lh / 2;
-    ctx.translate(cx, cy);
-    ctx.rotate((layer.rotation * Math.PI) / 180);
-    ctx.translate(-cx, -cy);
-    ctx.globalAlpha = layer.opacity;
-
-    if (layer.type === 'image') {
-      const img = new Image();
-      img.src = layer.content;
-      await new Promise((resolve) => {
-        if (img.complete) resolve(true);
-        img.onload = () => resolve(true);
-        img.onerror = () => resolve(true);
-      });
-      ctx.drawImage(img, lx, ly, lw, lh);
-    } else if (layer.type === 'text') {
-        // Font size relative to height. 
-        const fontSize = (canvas.height * 0.05) * (layer.style?.fontSize || 1);
-        ctx.font = `${layer.style?.fontWeight || 'normal'} ${fontSize}px ${layer.style?.fontFamily || 'sans-serif'}`;
-        ctx.fillStyle = layer.style?.color || '#000000';
-        ctx.textBaseline = 'top';
-        // Handle multiline text
-        const lines = layer.content.split('\n');
-        lines.forEach((line, i) => {
-            ctx.fillText(line, lx, ly + (i * fontSize * 1.2));
-        });
+    if (layer.type === 'image' && !images.has(layer.content)) {
+      images.set(layer.content, await loadImage(layer.content));
     }
-    ctx.restore();
+  }
+  if (config.background.image) {
+    images.set(config.background.image, await loadImage(config.background.image));
   }
 
+  // Project fonts must be ready before any text is measured or drawn
+  await loadFonts(fonts);
+
+  // Text and shape layers are written as vectors, so the stack is split into runs.
+  // Only the first raster run carries the poster background.
+  const runs = splitIntoRuns(layers, fonts);
+
   // 3. Generate PDF Pages
   const doc = new jsPDF({
     orientation: isPortrait ? 'p' : 'l',
@@ -107,6 +306,23 @@ export const generateTiledPDF = async (
 
   // Remove the initial page added by jsPDF
   doc.deletePage(1);
+  addFontsToPdf(doc, fonts);
+
+  // Optional cover page so the sheets can be laid out in order
+  if (config.showAssemblyMap) {
+    const thumbScale = Math.min(1, 1200 / Math.max(canvasW, canvasH));
+    const thumbW = Math.max(1, Math.round(canvasW * thumbScale));
+    const thumbH = Math.max(1, Math.round(canvasH * thumbScale));
+    const region = { minX: 0, minY: 0, maxX: thumbW, maxY: thumbH };
+    const thumbnail = createPosterCanvas(thumbW, thumbH, true);
+    const thumbCtx = thumbnail.getContext('2d')!;
+    for (const run of runs) {
+      thumbCtx.drawImage(renderRegion(run, region, thumbW, thumbH, run === runs[0] ? config.background : null, images), 0, 0);
+    }
+
+    doc.addPage([pWidth, pHeight], isPortrait ? 'p' : 'l');
+    drawAssemblyMap(doc, config, layout, paperSize, thumbnail);
+  }
 
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
@@ -114,39 +330,58 @@ export const generateTiledPDF = async (
 
       // Calculate where on the source canvas we are looking
       // Source coordinates (in unscaled unit)
-      const srcX = c * printW;
-      const srcY = r * printH;
+      // Tiles advance by the step, so each one repeats the overlap strip of its neighbour
+      const srcX = c * stepW;
+      const srcY = r * stepH;
       
       // Calculate remaining width/height to avoid drawing whitespace if partial
       const srcW = Math.min(printW, posterWidth - srcX);
       const srcH = Math.min(printH, posterHeight - srcY);
 
       // Destination on PDF
-      const destX = config.margin;
-      const destY = config.margin;
-
-      // Extract image data from canvas
-      // We clip the canvas data
-      const sx = srcX * scale;
-      const sy = srcY * scale;
-      const sw = srcW * scale;
-      const sh = srcH * scale;
-
-      if (sw > 0 && sh > 0) {
-        // Create a temporary canvas for this tile to ensure clean edges
-        const tileCanvas = document.createElement('canvas');
-        tileCanvas.width = sw;
-        tileCanvas.height = sh;
-        const tileCtx = tileCanvas.getContext('2d');
-        if (tileCtx) {
-            tileCtx.drawImage(canvas, sx, sy, sw, sh, 0, 0, sw, sh);
-            const tileData = tileCanvas.toDataURL('image/jpeg', 0.95);
-            doc.addImage(tileData, 'JPEG', destX, destY, srcW, srcH);
+      const destX = margins.left;
+      const destY = margins.top;
+
+      const tile = { row: r, col: c, destX, destY, srcX, srcY, srcW, srcH };
+      // What is printed: the trimmed tile plus the bleed around it
+      const printed = {
+        ...tile,
+        destX: destX - bleed, destY: destY - bleed, srcX: srcX - bleed, srcY: srcY - bleed,
+        srcW: srcW + bleed * 2, srcH: srcH + bleed * 2
+      };
+
+      // Region of the poster printed on this sheet, in poster pixels
+      const region = {
+        minX: printed.srcX * scale,
+        minY: printed.srcY * scale,
+        maxX: (printed.srcX + printed.srcW) * scale,
+        maxY: (printed.srcY + printed.srcH) * scale
+      };
+
+      if (srcW > 0 && srcH > 0) {
+        for (const run of runs) {
+          if (run.type === 'vector') {
+            run.layers.forEach(layer => layer.type === 'shape'
+              ? drawVectorShape(doc, layer, posterWidth, posterHeight, printed)
+              : drawVectorText(doc, layer, posterWidth, posterHeight, printed));
+            continue;
+          }
+          const isBase = run === runs[0];
+          if (!isBase && !run.layers.some(layer => boundsIntersect(getVisualBounds(layer, canvasW, canvasH), region))) {
+            continue;
+          }
+
+          const tileCanvas = renderRegion(run, region, canvasW, canvasH, isBase ? config.background : null, images);
+          const { data, format } = encodeTile(tileCanvas, config, !isBase);
+          doc.addImage(data, format, printed.destX, printed.destY, printed.srcW, printed.srcH);
         }
       }
 
       // Add Guides / Cut Lines
-      if (config.showCutLines && config.cutLineStyle !== 'none') {
+      if (config.showCutLines && config.cutLineStyle !== 'none' && bleed > 0) {
+        // A line on the trim would be printed over the bleed, so mark the corners from outside
+        drawCropMarks(doc, tile, bleed, pWidth, pHeight, isInch);
+      } else if (config.showCutLines && config.cutLineStyle !== 'none') {
         doc.setLineWidth(isInch ? 0.01 : 0.3); // Adjust line width for unit
         doc.setDrawColor(150, 150, 150);
         
@@ -174,12 +409,15 @@ export const generateTiledPDF = async (
         doc.line(destX + srcW, destY + srcH - markLen, destX + srcW, destY + srcH + markOffset);
       }
 
+      // Glue tabs, registration marks and neighbour labels
+      drawAssemblyAids(doc, config, layout, tile);
+
       // Page Numbers
       if (config.showPageNumbers) {
         doc.setFontSize(10);
         doc.setTextColor(150);
         doc.text(
-          `Page ${r + 1}-${c + 1} (Row ${r + 1}, Col ${c + 1})`, 
+          `Page ${getTileLabel(r, c)} (Row ${r + 1}, Col ${c + 1})`, 
           isInch ? 0.2 : 5, 
           pHeight - (isInch ? 0.2 : 5)
         );
@@ -0,0 +1,241 @@
+import jsPDF, { GState } from 'jspdf';
+import { Layer, TextFit, TilePlacement } from '../types';
+
+// Default line spacing, and where the baseline sits below the top of the em box,
+// as fractions of the font size. Matches the canvas renderer's CSS line boxes.
+export const TEXT_LINE_HEIGHT = 1.2;
+const TEXT_ASCENT = 0.7;
+// Underline position below the baseline and its thickness
+export const UNDERLINE_OFFSET = 0.1;
+export const UNDERLINE_WIDTH = 0.06;
+
+// jsPDF only ships the standard 14 fonts, so map our font list onto them
+export const getPdfFont = (fontFamily?: string) => {
+  switch (fontFamily) {
+    case 'Times New Roman':
+    case 'Georgia':
+      return 'times';
+    case 'Courier New':
+      return 'courier';
+    default:
+      return 'helvetica';
+  }
+};
+
+// jsPDF style names: normal, bold, italic or bolditalic
+const getPdfFontStyle = (layer: Layer) => {
+  const bold = layer.style?.fontWeight === 'bold';
+  const italic = layer.style?.fontStyle === 'italic';
+  return bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+};
+
+// CSS/canvas font shorthand for a text layer at the given pixel size
+export const getCanvasFont = (layer: Layer, fontSizePx: number) =>
+  `${layer.style?.fontStyle || 'normal'} ${layer.style?.fontWeight || 'normal'} ${fontSizePx}px ${layer.style?.fontFamily ? `"${layer.style.fontFamily}"` : 'sans-serif'}`;
+
+const hexToRgb = (hex: string) => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(ch => ch + ch).join('') : value;
+  const num = parseInt(full, 16);
+  return [(num >> 16) & 255, (num >> 8) & 255, num & 255] as const;
+};
+
+// Font size of a text layer in poster units
+export const getTextFontSize = (layer: Layer, posterHeight: number) =>
+  (posterHeight * 0.05) * (layer.style?.fontSize || 1);
+
+export const getLineHeight = (layer: Layer) => layer.style?.lineHeight || TEXT_LINE_HEIGHT;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+const MEASURE_FONT_SIZE = 100;
+
+// Width of `text` in a layer's font at `fontSize`, as the browser draws it
+export const measureText = (layer: Layer, text: string, fontSize: number) => {
+  measureContext = measureContext || document.createElement('canvas').getContext('2d');
+  if (!measureContext) return 0;
+  measureContext.font = getCanvasFont(layer, MEASURE_FONT_SIZE);
+  return (measureContext.measureText(text).width * fontSize) / MEASURE_FONT_SIZE;
+};
+
+// Breaks each paragraph at spaces into lines no wider than maxWidth.
+// A word wider than the box keeps a line of its own, like CSS.
+const wrapParagraphs = (paragraphs: string[], maxWidth: number, widthOf: (text: string) => number) =>
+  paragraphs.flatMap(paragraph => {
+    const lines: string[] = [];
+    let line: string | null = null;
+    for (const word of paragraph.split(' ')) {
+      const candidate: string = line === null ? word : `${line} ${word}`;
+      if (line !== null && word && widthOf(candidate) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    return [...lines, line ?? ''];
+  });
+
+export interface TextLine {
+  text: string;
+  x: number; // left edge, relative to the layer box
+  top: number; // top of the line box, relative to the layer box
+  width: number; // including letter spacing after every character, like CSS
+}
+
+// Lines of a text layer positioned within its box, in poster units. Line breaks and fitted
+// sizes are always measured in the browser's font so every renderer breaks lines where the
+// preview does; `measure` only places each line for alignment, at the given font size.
+export const layoutText = (
+  layer: Layer,
+  posterWidth: number,
+  posterHeight: number,
+  measure: (text: string, fontSize: number) => number = (text, size) => measureText(layer, text, size)
+) => {
+  const spacing = layer.style?.letterSpacing || 0;
+  const lineSpacing = getLineHeight(layer);
+  const boxWidth = layer.width * posterWidth;
+  const align = layer.style?.textAlign || 'left';
+  const fitted = layer.textFit === TextFit.FIT;
+  const paragraphs = layer.content.split('\n');
+  const browserWidth = (text: string, size: number) => measureText(layer, text, size) + spacing * size * [...text].length;
+
+  let fontSize = getTextFontSize(layer, posterHeight);
+  let texts = paragraphs;
+  if (fitted) {
+    // The unwrapped lines scale until they fill the box's width or height
+    const widest = Math.max(...paragraphs.map(text => browserWidth(text, 1)));
+    fontSize = Math.min(widest > 0 ? boxWidth / widest : Infinity, (layer.height * posterHeight) / (paragraphs.length * lineSpacing));
+  } else {
+    texts = wrapParagraphs(paragraphs, boxWidth, text => browserWidth(text, fontSize));
+  }
+
+  const lineHeight = fontSize * lineSpacing;
+  const letterSpacing = spacing * fontSize;
+  const linesHeight = texts.length * lineHeight;
+  const height = fitted ? layer.height * posterHeight : linesHeight;
+  // Fitted text is centred in its box when it fills the width first
+  const offsetTop = (height - linesHeight) / 2;
+
+  const lines: TextLine[] = texts.map((text, i) => {
+    const width = measure(text, fontSize) + letterSpacing * [...text].length;
+    const x = align === 'center' ? (boxWidth - width) / 2 : align === 'right' ? boxWidth - width : 0;
+    return { text, x, top: offsetTop + i * lineHeight, width };
+  });
+
+  return {
+    fontSize,
+    lineHeight,
+    letterSpacing,
+    lines,
+    width: boxWidth,
+    height,
+    // Baseline offset from the top of each line box; CSS splits the extra leading above and below
+    baseline: (lineHeight - fontSize) / 2 + fontSize * TEXT_ASCENT,
+  };
+};
+
+// Height of a text layer's box as a fraction of the poster height. Wrapped text boxes size
+// to their lines, so this replaces the stored height when measuring; fitted text keeps it.
+export const getTextBlockHeight = (layer: Layer, posterWidth: number, posterHeight: number) =>
+  layer.textFit === TextFit.FIT ? layer.height : layoutText(layer, posterWidth, posterHeight).height / posterHeight;
+
+// Draws a text layer as real PDF text, clipped to the tile's printable area
+export const drawVectorText = (
+  doc: jsPDF,
+  layer: Layer,
+  posterWidth: number,
+  posterHeight: number,
+  tile: TilePlacement
+) => {
+  const { destX, destY, srcX, srcY, srcW, srcH } = tile;
+  const style = layer.style || {};
+
+  // Project fonts are embedded under their own family name, in a single style;
+  // bold and italic layers in them are rasterised instead
+  if (style.fontFamily && doc.getFontList()[style.fontFamily]) {
+    doc.setFont(style.fontFamily, 'normal');
+  } else {
+    doc.setFont(getPdfFont(style.fontFamily), getPdfFontStyle(layer));
+  }
+  const text = layoutText(layer, posterWidth, posterHeight, (line, size) => doc.getStringUnitWidth(line) * size);
+  const { fontSize, lines, baseline, letterSpacing } = text;
+  doc.setFontSize(fontSize * doc.internal.scaleFactor);
+
+  const strokeWidth = style.strokeColor ? (style.strokeWidth || 0) * fontSize : 0;
+  const shadowOffset = style.shadowColor ? (style.shadowOffset || 0) * fontSize : 0;
+
+  // Layer box in poster units; rotation is around its centre like the canvas renderer
+  const lx = layer.x * posterWidth;
+  const ly = layer.y * posterHeight;
+  const cx = lx + text.width / 2;
+  const cy = ly + text.height / 2;
+  const rad = (layer.rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  // Position within the layer box -> poster units on this tile's page
+  const toPage = (x: number, y: number) => {
+    const dx = lx + x - cx;
+    const dy = ly + y - cy;
+    return { x: destX + cx + dx * cos - dy * sin - srcX, y: destY + cy + dx * sin + dy * cos - srcY };
+  };
+
+  // Skip tiles the rotated text block (with its outline and shadow) can't reach
+  const pad = strokeWidth / 2 + shadowOffset;
+  const minLeft = Math.min(0, ...lines.map(l => l.x)) - pad;
+  const maxRight = Math.max(text.width, ...lines.map(l => l.x + l.width)) + pad;
+  const corners = [
+    toPage(minLeft, -pad), toPage(maxRight, -pad), toPage(minLeft, text.height + pad), toPage(maxRight, text.height + pad)
+  ];
+  if (
+    Math.max(...corners.map(p => p.x)) < destX || Math.min(...corners.map(p => p.x)) > destX + srcW ||
+    Math.max(...corners.map(p => p.y)) < destY || Math.min(...corners.map(p => p.y)) > destY + srcH
+  ) return;
+
+  doc.saveGraphicsState();
+  doc.rect(destX, destY, srcW, srcH, null);
+  doc.clip();
+  doc.discardPath();
+  doc.setGState(new GState({ opacity: layer.opacity, 'stroke-opacity': layer.opacity }));
+
+  if (style.backgroundColor) {
+    const [a, b, c, d] = [toPage(0, 0), toPage(text.width, 0), toPage(text.width, text.height), toPage(0, text.height)];
+    doc.setFillColor(...hexToRgb(style.backgroundColor));
+    doc.lines([[b.x - a.x, b.y - a.y], [c.x - b.x, c.y - b.y], [d.x - c.x, d.y - c.y]], a.x, a.y, [1, 1], 'F', true);
+  }
+
+  // One pass of every line, offset within the layer box
+  const drawPass = (color: string, offset: number, renderingMode: 'fill' | 'stroke') => {
+    doc.setTextColor(...hexToRgb(color));
+    doc.setDrawColor(...hexToRgb(color));
+    lines.forEach(line => {
+      const anchor = toPage(line.x + offset, line.top + baseline + offset);
+      doc.text(line.text, anchor.x, anchor.y, { angle: -layer.rotation, charSpace: letterSpacing, renderingMode });
+
+      if (style.underline && renderingMode === 'fill' && line.text.length > 0) {
+        const y = line.top + baseline + fontSize * UNDERLINE_OFFSET + offset;
+        const start = toPage(line.x + offset, y);
+        const end = toPage(line.x + line.width - letterSpacing + offset, y);
+        doc.setLineWidth(fontSize * UNDERLINE_WIDTH);
+        doc.line(start.x, start.y, end.x, end.y);
+      }
+    });
+  };
+
+  // Same order as the canvas: shadow, then the outline behind the fill
+  doc.setLineJoin('round');
+  if (shadowOffset > 0) {
+    if (strokeWidth > 0) {
+      doc.setLineWidth(strokeWidth);
+      drawPass(style.shadowColor!, shadowOffset, 'stroke');
+    }
+    drawPass(style.shadowColor!, shadowOffset, 'fill');
+  }
+  if (strokeWidth > 0) {
+    doc.setLineWidth(strokeWidth);
+    drawPass(style.strokeColor!, 0, 'stroke');
+  }
+  drawPass(style.color || '#000000', 0, 'fill');
+
+  doc.restoreGraphicsState();
+  doc.setFont('helvetica', 'normal');
+};
@@ -0,0 +1,54 @@
+import { EdgeMargins, PaperOrientation, PaperSize, PrinterProfile } from '../types';
+
+// Custom sheets and printers belong to this browser rather than to a project,
+// so they are kept in localStorage and offered in every project.
+const CUSTOM_PAPERS_KEY = 'tarp-papel-maker:paper-sizes';
+const PRINTERS_KEY = 'tarp-papel-maker:printers';
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isMargin = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isCustomPaper = (raw: unknown): raw is PaperSize =>
+  isObject(raw) && typeof raw.id === 'string' && typeof raw.name === 'string' && isPositive(raw.width) && isPositive(raw.height);
+
+export const isPrinterProfile = (raw: unknown): raw is PrinterProfile => {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') return false;
+  const { margins } = raw;
+  return isObject(margins) && ['top', 'right', 'bottom', 'left'].every(edge => isMargin(margins[edge]));
+};
+
+// Entries that don't look right are dropped rather than breaking the app
+const readList = <T>(key: string, isValid: (raw: unknown) => raw is T): T[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(raw) ? raw.filter(isValid) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadCustomPapers = () =>
+  readList(CUSTOM_PAPERS_KEY, isCustomPaper).map(paper => ({ ...paper, category: 'Custom' as const }));
+
+export const saveCustomPapers = (papers: PaperSize[]) =>
+  localStorage.setItem(CUSTOM_PAPERS_KEY, JSON.stringify(papers));
+
+export const loadPrinterProfiles = () => readList(PRINTERS_KEY, isPrinterProfile);
+
+export const savePrinterProfiles = (printers: PrinterProfile[]) =>
+  localStorage.setItem(PRINTERS_KEY, JSON.stringify(printers));
+
+// A printer's margins with the sheet as it is printed. Landscape pages are
+// turned a quarter clockwise, so the sheet's left edge ends up at the top.
+export const getPrinterMargins = (printer: PrinterProfile, orientation: PaperOrientation): EdgeMargins => {
+  const { top, right, bottom, left } = printer.margins;
+  return orientation === PaperOrientation.PORTRAIT
+    ? { top, right, bottom, left }
+    : { top: left, right: top, bottom: right, left: bottom };
+};
@@ -0,0 +1,188 @@
+import {
+  BackgroundType, CustomFont, Layer, PosterConfig, SlicingMode, Unit, PaperOrientation, ImageEncoding, ImageFit, ShapeKind, TextFit,
+  PaperSize, PrinterProfile
+} from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { isCustomPaper, isPrinterProfile } from './printSetup';
+
+export const PROJECT_FILE_EXTENSION = '.tarp';
+export const PROJECT_FORMAT = 'tarp-papel-project';
+// Bump when the saved shape changes and add a step to MIGRATIONS
+export const PROJECT_SCHEMA_VERSION = 3;
+
+export interface ProjectData {
+  config: PosterConfig;
+  layers: Layer[];
+  fonts: CustomFont[];
+  // Custom paper and printer the config refers to. They are saved in the browser,
+  // so the project carries a copy for browsers that don't have them.
+  papers: PaperSize[];
+  printers: PrinterProfile[];
+}
+
+interface ProjectFile extends ProjectData {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2 embeds uploaded fonts
+  1: data => ({ ...data, version: 2, fonts: [] }),
+  // v3 embeds the custom paper and printer profile in use
+  2: data => ({ ...data, version: 3, papers: [], printers: [] }),
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isOneOf = <T extends string>(value: unknown, options: Record<string, T>): value is T =>
+  Object.values(options).includes(value as T);
+
+// Older files may lack newer settings, so anything missing falls back to the defaults
+const validateConfig = (raw: unknown): PosterConfig => {
+  if (!isObject(raw)) throw new Error("The project file has no poster settings.");
+  const config = { ...DEFAULT_CONFIG, ...raw } as PosterConfig;
+
+  if (!isOneOf(config.mode, SlicingMode)) throw new Error(`Unknown slicing mode "${config.mode}".`);
+  if (!isOneOf(config.unit, Unit)) throw new Error(`Unknown unit "${config.unit}".`);
+  if (!isOneOf(config.orientation, PaperOrientation)) throw new Error(`Unknown orientation "${config.orientation}".`);
+  if (!isOneOf(config.imageEncoding, ImageEncoding)) throw new Error(`Unknown image encoding "${config.imageEncoding}".`);
+  if (typeof config.paperId !== 'string') throw new Error("The paper size in the project file is invalid.");
+  if (typeof config.printerId !== 'string') throw new Error("The printer in the project file is invalid.");
+  if (!isObject(config.background)) throw new Error("The poster background in the project file is invalid.");
+  config.background = { ...DEFAULT_CONFIG.background, ...config.background };
+  if (!isOneOf(config.background.type, BackgroundType)) throw new Error(`Unknown background type "${config.background.type}".`);
+  if (config.background.image !== undefined && !String(config.background.image).startsWith('data:')) {
+    throw new Error("The background image is missing its embedded image data.");
+  }
+
+  const numericKeys = [
+    'targetWidth', 'targetHeight', 'gridRows', 'gridCols', 'margin', 'bleed', 'overlap', 'dpi', 'jpegQuality'
+  ] as const;
+  for (const key of numericKeys) {
+    if (!isFiniteNumber(config[key])) throw new Error(`The setting "${key}" in the project file is not a number.`);
+  }
+
+  return config;
+};
+
+const validateLayer = (raw: unknown, index: number): Layer => {
+  const where = `Layer ${index + 1}`;
+  if (!isObject(raw)) throw new Error(`${where} in the project file is not a layer.`);
+  if (typeof raw.id !== 'string') throw new Error(`${where} has no id.`);
+  if (raw.type !== 'image' && raw.type !== 'text' && raw.type !== 'shape') throw new Error(`${where} has an unknown type "${raw.type}".`);
+  if (typeof raw.content !== 'string') throw new Error(`${where} has no content.`);
+  if (raw.type === 'image' && !raw.content.startsWith('data:')) {
+    throw new Error(`${where} is missing its embedded image data.`);
+  }
+
+  for (const key of ['x', 'y', 'width', 'height', 'rotation', 'opacity']) {
+    if (!isFiniteNumber(raw[key])) throw new Error(`${where} has an invalid "${key}" value.`);
+  }
+  if (raw.groupId !== undefined && typeof raw.groupId !== 'string') throw new Error(`${where} has an invalid group.`);
+  if (raw.style !== undefined && !isObject(raw.style)) throw new Error(`${where} has invalid styling.`);
+  if (raw.type === 'shape' && !(isObject(raw.shape) && isOneOf(raw.shape.kind, ShapeKind))) {
+    throw new Error(`${where} has an unknown shape.`);
+  }
+  if (raw.fit !== undefined && !isOneOf(raw.fit, ImageFit)) throw new Error(`${where} has an unknown image fit "${raw.fit}".`);
+  if (raw.textFit !== undefined && !isOneOf(raw.textFit, TextFit)) throw new Error(`${where} has an unknown text layout "${raw.textFit}".`);
+  const { crop, protectedRegion } = raw;
+  if (crop !== undefined && !(isObject(crop) && ['x', 'y', 'zoom'].every(key => isFiniteNumber(crop[key])))) {
+    throw new Error(`${where} has an invalid crop.`);
+  }
+  if (protectedRegion !== undefined && !(isObject(protectedRegion)
+    && ['x', 'y', 'width', 'height'].every(key => isFiniteNumber(protectedRegion[key])))) {
+    throw new Error(`${where} has an invalid protected area.`);
+  }
+
+  return raw as unknown as Layer;
+};
+
+const validateFont = (raw: unknown, index: number): CustomFont => {
+  const where = `Font ${index + 1}`;
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.family !== 'string') {
+    throw new Error(`${where} in the project file is not a font.`);
+  }
+  if (typeof raw.data !== 'string' || !raw.data.startsWith('data:')) {
+    throw new Error(`${where} ("${raw.family}") is missing its embedded font data.`);
+  }
+  return raw as unknown as CustomFont;
+};
+
+export const serializeProject = ({ config, layers, fonts, papers, printers }: ProjectData) => {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    config,
+    layers,
+    fonts,
+    papers,
+    printers,
+  };
+  return JSON.stringify(file);
+};
+
+// Parses and validates a saved project, migrating older versions forward.
+// Throws an Error with a user-facing message when the file can't be used.
+export const parseProject = (text: string): ProjectData => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not a valid project file (it could not be read as JSON).");
+  }
+
+  if (!isObject(parsed) || parsed.format !== PROJECT_FORMAT) {
+    throw new Error("This file is not a Tarp Papel Maker project.");
+  }
+  const { version } = parsed;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error("The project file has no valid version number and may be corrupt.");
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(
+      `This project was saved by a newer version of Tarp Papel Maker (format v${version}). ` +
+      `Please update the app to open it.`
+    );
+  }
+
+  let data = parsed;
+  for (let v = version; v < PROJECT_SCHEMA_VERSION; v++) {
+    data = MIGRATIONS[v](data);
+  }
+
+  if (!Array.isArray(data.layers)) throw new Error("The project file has no layer list.");
+  if (!Array.isArray(data.fonts)) throw new Error("The project file has no font list.");
+  if (!Array.isArray(data.papers) || !data.papers.every(isCustomPaper)) {
+    throw new Error("The custom paper size in the project file is invalid.");
+  }
+  if (!Array.isArray(data.printers) || !data.printers.every(isPrinterProfile)) {
+    throw new Error("The printer profile in the project file is invalid.");
+  }
+
+  return {
+    config: validateConfig(data.config),
+    layers: data.layers.map(validateLayer),
+    fonts: data.fonts.map(validateFont),
+    papers: data.papers.map(paper => ({ ...paper, category: 'Custom' as const })),
+    printers: data.printers,
+  };
+};
+
+export const downloadProject = (project: ProjectData, filename = 'tarp-papel-project') => {
+  const blob = new Blob([serializeProject(project)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}${PROJECT_FILE_EXTENSION}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readProjectFile = async (file: File) => parseProject(await file.text());
@@ -0,0 +1,203 @@
+import { CustomFont, Layer } from '../types';
+import { ProjectData, parseProject, serializeProject } from './projectFile';
+
+// Browser-side autosave. Project records and image data live in IndexedDB;
+// localStorage only remembers which project the last session was editing.
+const DB_NAME = 'tarp-papel-maker';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const IMAGE_STORE = 'images'; // also holds font files, keyed the same way
+const LAST_SESSION_KEY = 'tarp-papel-maker:last-session';
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+export const MAX_RECENT_PROJECTS = 8;
+
+export interface RecentProject {
+  id: string;
+  name: string;
+  updatedAt: number;
+  layerCount: number;
+}
+
+interface ProjectRecord extends RecentProject {
+  // Serialized project with image contents replaced by IMAGE_REF_PREFIX keys
+  data: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Image data URLs are keyed by content so unchanged images are written once,
+// not on every autosave. The last few hashes are memoized because the same
+// strings recur on every save; the cap keeps replaced images from piling up.
+const HASH_CACHE_LIMIT = 16;
+const hashCache = new Map<string, string>();
+const imageKey = async (content: string) => {
+  let key = hashCache.get(content);
+  if (key) {
+    hashCache.delete(content);
+  } else {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    key = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+  // Re-inserting keeps the map in least-recently-used order
+  hashCache.set(content, key);
+  if (hashCache.size > HASH_CACHE_LIMIT) hashCache.delete(hashCache.keys().next().value!);
+  return key;
+};
+
+const isImageLayer = (layer: Layer) => layer.type === 'image' && layer.content.startsWith('data:');
+
+export const getLastSessionId = () => localStorage.getItem(LAST_SESSION_KEY);
+
+export const setLastSessionId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(LAST_SESSION_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_SESSION_KEY);
+  }
+};
+
+export const saveProjectSnapshot = async (id: string, name: string, project: ProjectData) => {
+  // Hashing is async, so keys are worked out before the transaction opens;
+  // an IndexedDB transaction commits as soon as it is left idle.
+  const pending = new Map<string, string>();
+  const storeData = async (data: string) => {
+    const key = await imageKey(data);
+    pending.set(key, data);
+    return `${IMAGE_REF_PREFIX}${key}`;
+  };
+  const layers = await Promise.all(project.layers.map(async layer =>
+    isImageLayer(layer) ? { ...layer, content: await storeData(layer.content) } : layer));
+  const fonts = await Promise.all(project.fonts.map(async font => ({ ...font, data: await storeData(font.data) })));
+  const { background } = project.config;
+  const config = background.image
+    ? { ...project.config, background: { ...background, image: await storeData(background.image) } }
+    : project.config;
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+  const images = tx.objectStore(IMAGE_STORE);
+  // Only new data is written; images already in the store are left alone
+  await Promise.all(Array.from(pending, async ([key, data]) => {
+    if (await promisify(images.count(key)) === 0) images.put(data, key);
+  }));
+
+  const record: ProjectRecord = {
+    id,
+    name,
+    updatedAt: Date.now(),
+    layerCount: layers.length,
+    data: serializeProject({ ...project, config, layers, fonts }),
+  };
+  tx.objectStore(PROJECT_STORE).put(record);
+  await transactionDone(tx);
+
+  await pruneStore();
+};
+
+export const loadProjectSnapshot = async (id: string): Promise<ProjectData | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readonly');
+  const record = await promisify<ProjectRecord | undefined>(tx.objectStore(PROJECT_STORE).get(id));
+  if (!record) return null;
+
+  const raw = JSON.parse(record.data);
+  const images = tx.objectStore(IMAGE_STORE);
+  const loadData = async (ref: string, what: string) => {
+    const data = await promisify<string | undefined>(images.get(ref.slice(IMAGE_REF_PREFIX.length)));
+    if (!data) throw new Error(`${what} in the saved session is missing from browser storage.`);
+    return data;
+  };
+  raw.layers = await Promise.all((raw.layers as Layer[]).map(async layer => {
+    if (layer.type !== 'image' || !layer.content.startsWith(IMAGE_REF_PREFIX)) return layer;
+    return { ...layer, content: await loadData(layer.content, "An image") };
+  }));
+  // Sessions saved before fonts were added have no font list; the migration fills it in
+  if (Array.isArray(raw.fonts)) {
+    raw.fonts = await Promise.all((raw.fonts as CustomFont[]).map(async font => font.data.startsWith(IMAGE_REF_PREFIX)
+      ? { ...font, data: await loadData(font.data, `The font "${font.family}"`) }
+      : font));
+  }
+
+  const backgroundImage = raw.config?.background?.image;
+  if (typeof backgroundImage === 'string' && backgroundImage.startsWith(IMAGE_REF_PREFIX)) {
+    raw.config.background.image = await loadData(backgroundImage, "The background image");
+  }
+
+  // Same validation and migrations as project files
+  return parseProject(JSON.stringify(raw));
+};
+
+export const listRecentProjects = async (): Promise<RecentProject[]> => {
+  const db = await openDb();
+  const records = await promisify<ProjectRecord[]>(
+    db.transaction(PROJECT_STORE, 'readonly').objectStore(PROJECT_STORE).getAll()
+  );
+  return records
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(({ id, name, updatedAt, layerCount }) => ({ id, name, updatedAt, layerCount }));
+};
+
+export const deleteProjectSnapshot = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECT_STORE, 'readwrite');
+  tx.objectStore(PROJECT_STORE).delete(id);
+  await transactionDone(tx);
+  await pruneStore();
+};
+
+// Keeps only the most recent projects and drops images no project references
+const pruneStore = async () => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+  const projects = tx.objectStore(PROJECT_STORE);
+  const images = tx.objectStore(IMAGE_STORE);
+
+  const records = (await promisify<ProjectRecord[]>(projects.getAll()))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  const kept = records.slice(0, MAX_RECENT_PROJECTS);
+  records.slice(MAX_RECENT_PROJECTS).forEach(record => projects.delete(record.id));
+
+  const referenced = new Set<string>();
+  kept.forEach(record => {
+    const matches = record.data.match(new RegExp(`${IMAGE_REF_PREFIX}[^"]+`, 'g')) || [];
+    matches.forEach(ref => referenced.add(ref.slice(IMAGE_REF_PREFIX.length)));
+  });
+
+  const keys = await promisify(images.getAllKeys());
+  keys.forEach(key => {
+    if (!referenced.has(String(key))) images.delete(key);
+  });
+
+  await transactionDone(tx);
+};
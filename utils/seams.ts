@@ -0,0 +1,149 @@
+import { Layer, TileLayout, Unit } from '../types';
+import { Bounds } from './geometry';
+import { getTileLabel, MM_PER_INCH } from './layout';
+import { getTextBlockHeight, layoutText, measureText } from './pdfText';
+
+// How far a nudged layer is kept from the seam, in mm
+const SEAM_CLEARANCE_MM = 3;
+
+interface Seam {
+  axis: 'x' | 'y'; // 'x' seams are vertical cuts at a given x
+  index: number; // the tile column/row that starts at this seam
+  start: number;
+  end: number; // start + overlap; the whole band is printed on both sheets
+}
+
+export interface SeamIssue {
+  layerId: string;
+  kind: 'text' | 'region';
+  message: string;
+  // Smallest move (as fractions of the poster) that clears every seam, or null if the layer can't fit between seams
+  nudge: { x: number; y: number } | null;
+}
+
+// Where sheets meet, in poster units. Each seam starts where the next tile begins.
+const getSeams = (layout: TileLayout): Seam[] => [
+  ...Array.from({ length: layout.cols - 1 }, (_, i) => ({
+    axis: 'x' as const, index: i + 1, start: (i + 1) * layout.stepW, end: (i + 1) * layout.stepW + layout.overlap,
+  })),
+  ...Array.from({ length: layout.rows - 1 }, (_, i) => ({
+    axis: 'y' as const, index: i + 1, start: (i + 1) * layout.stepH, end: (i + 1) * layout.stepH + layout.overlap,
+  })),
+];
+
+const rowName = (row: number) => getTileLabel(row, 0).replace(/\d+$/, '');
+
+const describeSeam = ({ axis, index }: Seam) => axis === 'x'
+  ? `the cut between columns ${index} and ${index + 1}`
+  : `the cut between rows ${rowName(index - 1)} and ${rowName(index)}`;
+
+// Word boxes of a text layer in poster units, relative to the layer's top-left and unrotated.
+// Gaps between words and lines are allowed to sit on a seam.
+const getWordBoxes = (layer: Layer, posterWidth: number, posterHeight: number): Bounds[] => {
+  const { fontSize, lineHeight, lines, letterSpacing } = layoutText(layer, posterWidth, posterHeight);
+  const measure = (text: string) => measureText(layer, text, fontSize);
+  const boxes: Bounds[] = [];
+
+  lines.forEach(line => {
+    // The em box around the baseline, ignoring the leading between lines
+    const top = line.top + (lineHeight - fontSize) / 2;
+    for (const match of line.text.matchAll(/\S+/g)) {
+      const before = line.text.slice(0, match.index);
+      const left = line.x + measure(before) + letterSpacing * [...before].length;
+      const width = measure(match[0]) + letterSpacing * ([...match[0]].length - 1);
+      boxes.push({ minX: left, minY: top, maxX: left + width, maxY: top + fontSize });
+    }
+  });
+
+  return boxes;
+};
+
+// Poster-space bounds of boxes given in the layer's frame, rotated with the layer
+const toPosterBounds = (layer: Layer, boxes: Bounds[], posterWidth: number, posterHeight: number) => {
+  const lx = layer.x * posterWidth;
+  const ly = layer.y * posterHeight;
+  const cx = lx + (layer.width * posterWidth) / 2;
+  // Text rotates around the middle of its lines, like both renderers
+  const frameH = layer.type === 'text' ? getTextBlockHeight(layer, posterWidth, posterHeight) : layer.height;
+  const cy = ly + (frameH * posterHeight) / 2;
+  const rad = (layer.rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  return boxes.map(box => {
+    const corners = [
+      [box.minX, box.minY], [box.maxX, box.minY], [box.minX, box.maxY], [box.maxX, box.maxY]
+    ].map(([x, y]) => {
+      const dx = lx + x - cx;
+      const dy = ly + y - cy;
+      return { x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos };
+    });
+    return {
+      minX: Math.min(...corners.map(p => p.x)),
+      minY: Math.min(...corners.map(p => p.y)),
+      maxX: Math.max(...corners.map(p => p.x)),
+      maxY: Math.max(...corners.map(p => p.y)),
+    };
+  });
+};
+
+const crosses = (box: Bounds, seam: Seam, shift = 0) => seam.axis === 'x'
+  ? box.minX + shift < seam.end && box.maxX + shift > seam.start
+  : box.minY + shift < seam.end && box.maxY + shift > seam.start;
+
+// Smallest shift along one axis after which no box crosses any of that axis' seams
+const findClearShift = (boxes: Bounds[], seams: Seam[], clearance: number) => {
+  const clear = (shift: number) => !boxes.some(box => seams.some(seam => crosses(box, seam, shift)));
+  if (clear(0)) return 0;
+
+  const candidates: number[] = [];
+  boxes.forEach(box => seams.forEach(seam => {
+    const [min, max] = seam.axis === 'x' ? [box.minX, box.maxX] : [box.minY, box.maxY];
+    candidates.push(seam.start - clearance - max, seam.end + clearance - min);
+  }));
+  candidates.sort((a, b) => Math.abs(a) - Math.abs(b));
+  return candidates.find(clear) ?? null;
+};
+
+// Text whose words are split between sheets, and image layers whose protected region is cut
+export const findSeamIssues = (layers: Layer[], layout: TileLayout, unit: Unit): SeamIssue[] => {
+  const seams = getSeams(layout);
+  if (seams.length === 0) return [];
+
+  const { posterWidth, posterHeight } = layout;
+  const clearance = unit === Unit.INCH ? SEAM_CLEARANCE_MM / MM_PER_INCH : SEAM_CLEARANCE_MM;
+  const issues: SeamIssue[] = [];
+
+  layers.forEach(layer => {
+    let boxes: Bounds[];
+    if (layer.type === 'text') {
+      boxes = getWordBoxes(layer, posterWidth, posterHeight);
+    } else if (layer.protectedRegion) {
+      const { x, y, width, height } = layer.protectedRegion;
+      const frameW = layer.width * posterWidth;
+      const frameH = layer.height * posterHeight;
+      boxes = [{ minX: x * frameW, minY: y * frameH, maxX: (x + width) * frameW, maxY: (y + height) * frameH }];
+    } else {
+      return;
+    }
+
+    const bounds = toPosterBounds(layer, boxes, posterWidth, posterHeight);
+    const crossed = seams.filter(seam => bounds.some(box => crosses(box, seam)));
+    if (crossed.length === 0) return;
+
+    const shiftX = findClearShift(bounds, seams.filter(s => s.axis === 'x'), clearance);
+    const shiftY = findClearShift(bounds, seams.filter(s => s.axis === 'y'), clearance);
+    const where = crossed.map(describeSeam).join(' and ');
+
+    issues.push({
+      layerId: layer.id,
+      kind: layer.type === 'text' ? 'text' : 'region',
+      message: layer.type === 'text'
+        ? `"${layer.content.trim().slice(0, 24)}" is split by ${where}.`
+        : `The protected area of this image is split by ${where}.`,
+      nudge: shiftX === null || shiftY === null ? null : { x: shiftX / posterWidth, y: shiftY / posterHeight },
+    });
+  });
+
+  return issues;
+};
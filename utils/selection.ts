@@ -0,0 +1,144 @@
+import { Layer, TileLayout } from '../types';
+import { Bounds, getVisualBounds, unionBounds } from './geometry';
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type AlignReference = 'selection' | 'poster' | 'tile';
+
+type LayerMoves = Record<string, Pick<Layer, 'x' | 'y'>>;
+
+// Adds the other members of any group a selected layer belongs to
+export const expandToGroups = (layers: Layer[], ids: string[]) => {
+  const groupIds = new Set(layers.filter(l => ids.includes(l.id) && l.groupId).map(l => l.groupId));
+  return layers.filter(l => ids.includes(l.id) || (l.groupId && groupIds.has(l.groupId))).map(l => l.id);
+};
+
+// Selected layers split into what moves as one piece: each group, and each ungrouped layer
+const getUnits = (layers: Layer[], ids: string[]) => {
+  const units = new Map<string, Layer[]>();
+  layers.filter(l => ids.includes(l.id)).forEach(layer => {
+    const key = layer.groupId || layer.id;
+    units.set(key, [...(units.get(key) || []), layer]);
+  });
+  return [...units.values()];
+};
+
+const unitBounds = (unit: Layer[], width: number, height: number) =>
+  unionBounds(unit.map(layer => getVisualBounds(layer, width, height)));
+
+const moveUnit = (unit: Layer[], dx: number, dy: number, width: number, height: number, moves: LayerMoves) => {
+  unit.forEach(layer => {
+    moves[layer.id] = { x: layer.x + dx / width, y: layer.y + dy / height };
+  });
+};
+
+// Area to align against, in poster units. The tile is the one under the selection's centre.
+const getReferenceBounds = (
+  reference: AlignReference,
+  selection: Bounds,
+  layout: TileLayout
+): Bounds => {
+  if (reference === 'selection') return selection;
+  if (reference === 'poster') return { minX: 0, minY: 0, maxX: layout.posterWidth, maxY: layout.posterHeight };
+
+  const cx = (selection.minX + selection.maxX) / 2;
+  const cy = (selection.minY + selection.maxY) / 2;
+  const col = Math.max(0, Math.min(layout.cols - 1, Math.floor(cx / layout.stepW)));
+  const row = Math.max(0, Math.min(layout.rows - 1, Math.floor(cy / layout.stepH)));
+  const minX = col * layout.stepW;
+  const minY = row * layout.stepH;
+  return { minX, minY, maxX: minX + layout.printW, maxY: minY + layout.printH };
+};
+
+// New positions that line the selected layers up. A lone layer or group aligned to
+// the selection would not move, so it aligns to the poster instead.
+export const alignLayers = (
+  layers: Layer[],
+  ids: string[],
+  alignment: Alignment,
+  reference: AlignReference,
+  layout: TileLayout
+): LayerMoves => {
+  const { posterWidth: width, posterHeight: height } = layout;
+  const units = getUnits(layers, ids);
+  if (units.length === 0) return {};
+
+  const selection = unionBounds(units.map(unit => unitBounds(unit, width, height)));
+  const target = getReferenceBounds(
+    reference === 'selection' && units.length === 1 ? 'poster' : reference, selection, layout
+  );
+
+  const moves: LayerMoves = {};
+  units.forEach(unit => {
+    const b = unitBounds(unit, width, height);
+    let dx = 0;
+    let dy = 0;
+    switch (alignment) {
+      case 'left': dx = target.minX - b.minX; break;
+      case 'center': dx = (target.minX + target.maxX) / 2 - (b.minX + b.maxX) / 2; break;
+      case 'right': dx = target.maxX - b.maxX; break;
+      case 'top': dy = target.minY - b.minY; break;
+      case 'middle': dy = (target.minY + target.maxY) / 2 - (b.minY + b.maxY) / 2; break;
+      case 'bottom': dy = target.maxY - b.maxY; break;
+    }
+    moveUnit(unit, dx, dy, width, height, moves);
+  });
+  return moves;
+};
+
+// Spaces the selected layers evenly along one axis. Within the selection the outermost
+// layers stay put; within the poster or a tile the gaps at both ends count too.
+export const distributeLayers = (
+  layers: Layer[],
+  ids: string[],
+  axis: 'horizontal' | 'vertical',
+  reference: AlignReference,
+  layout: TileLayout
+): LayerMoves => {
+  const { posterWidth: width, posterHeight: height } = layout;
+  const units = getUnits(layers, ids).map(unit => ({ unit, bounds: unitBounds(unit, width, height) }));
+  const withinSelection = reference === 'selection';
+  if (units.length < (withinSelection ? 3 : 1)) return {};
+
+  const horizontal = axis === 'horizontal';
+  const start = (b: Bounds) => horizontal ? b.minX : b.minY;
+  const size = (b: Bounds) => horizontal ? b.maxX - b.minX : b.maxY - b.minY;
+  units.sort((a, b) => (start(a.bounds) + size(a.bounds) / 2) - (start(b.bounds) + size(b.bounds) / 2));
+
+  const selection = unionBounds(units.map(u => u.bounds));
+  const target = getReferenceBounds(reference, selection, layout);
+  const free = size(target) - units.reduce((sum, u) => sum + size(u.bounds), 0);
+  const gap = free / (withinSelection ? units.length - 1 : units.length + 1);
+
+  const moves: LayerMoves = {};
+  let cursor = start(target) + (withinSelection ? 0 : gap);
+  units.forEach(({ unit, bounds }) => {
+    const shift = cursor - start(bounds);
+    moveUnit(unit, horizontal ? shift : 0, horizontal ? 0 : shift, width, height, moves);
+    cursor += size(bounds) + gap;
+  });
+  return moves;
+};
+
+// Scales layers together about `anchor` (poster fractions), keeping their rotation.
+// Text grows with its box so the group keeps its proportions.
+export const scaleLayers = (
+  layers: Layer[],
+  factor: number,
+  anchor: { x: number; y: number }
+): Record<string, Partial<Layer>> => {
+  const updates: Record<string, Partial<Layer>> = {};
+  layers.forEach(layer => {
+    const cx = anchor.x + (layer.x + layer.width / 2 - anchor.x) * factor;
+    const cy = anchor.y + (layer.y + layer.height / 2 - anchor.y) * factor;
+    const width = layer.width * factor;
+    const height = layer.height * factor;
+    updates[layer.id] = {
+      x: cx - width / 2,
+      y: cy - height / 2,
+      width,
+      height,
+      ...(layer.type === 'text' && layer.style && { style: { ...layer.style, fontSize: (layer.style.fontSize || 1) * factor } }),
+    };
+  });
+  return updates;
+};
@@ -0,0 +1,168 @@
+import jsPDF, { GState } from 'jspdf';
+import { Layer, ShapeKind, ShapeStyle, TilePlacement } from '../types';
+import { getLayerBounds } from './geometry';
+
+export type PathCommand =
+  | { op: 'move' | 'line'; x: number; y: number }
+  | { op: 'curve'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: 'close' };
+
+// Control point distance for a quarter ellipse drawn as one cubic curve
+const KAPPA = 0.5523;
+
+// Starting look of a new shape of each kind
+export const DEFAULT_SHAPE_STYLES: Record<ShapeKind, ShapeStyle> = {
+  [ShapeKind.RECT]: { kind: ShapeKind.RECT, fill: '#3b82f6', strokeWidth: 0, cornerRadius: 0 },
+  [ShapeKind.ELLIPSE]: { kind: ShapeKind.ELLIPSE, fill: '#f59e0b', strokeWidth: 0 },
+  [ShapeKind.LINE]: { kind: ShapeKind.LINE, stroke: '#000000', strokeWidth: 0.005 },
+  [ShapeKind.ARROW]: { kind: ShapeKind.ARROW, fill: '#ef4444', strokeWidth: 0 },
+  [ShapeKind.BANNER]: { kind: ShapeKind.BANNER, fill: '#10b981', strokeWidth: 0 },
+};
+
+// Lines are only ever stroked
+export const isFilledShape = (shape: ShapeStyle) => shape.kind !== ShapeKind.LINE;
+
+const polygon = (points: [number, number][]): PathCommand[] => [
+  ...points.map(([x, y], i) => ({ op: i === 0 ? 'move' as const : 'line' as const, x, y })),
+  { op: 'close' },
+];
+
+const roundedRect = (w: number, h: number, r: number): PathCommand[] => {
+  const k = r * (1 - KAPPA);
+  return [
+    { op: 'move', x: r, y: 0 },
+    { op: 'line', x: w - r, y: 0 },
+    { op: 'curve', x1: w - k, y1: 0, x2: w, y2: k, x: w, y: r },
+    { op: 'line', x: w, y: h - r },
+    { op: 'curve', x1: w, y1: h - k, x2: w - k, y2: h, x: w - r, y: h },
+    { op: 'line', x: r, y: h },
+    { op: 'curve', x1: k, y1: h, x2: 0, y2: h - k, x: 0, y: h - r },
+    { op: 'line', x: 0, y: r },
+    { op: 'curve', x1: 0, y1: k, x2: k, y2: 0, x: r, y: 0 },
+    { op: 'close' },
+  ];
+};
+
+const ellipse = (w: number, h: number): PathCommand[] => {
+  const rx = w / 2;
+  const ry = h / 2;
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  return [
+    { op: 'move', x: w, y: ry },
+    { op: 'curve', x1: w, y1: ry + ky, x2: rx + kx, y2: h, x: rx, y: h },
+    { op: 'curve', x1: rx - kx, y1: h, x2: 0, y2: ry + ky, x: 0, y: ry },
+    { op: 'curve', x1: 0, y1: ry - ky, x2: rx - kx, y2: 0, x: rx, y: 0 },
+    { op: 'curve', x1: rx + kx, y1: 0, x2: w, y2: ry - ky, x: w, y: ry },
+    { op: 'close' },
+  ];
+};
+
+// Outline of a shape filling a w x h box, relative to the box's top-left corner.
+// Shared by the canvas preview and both PDF renderers.
+export const getShapePath = (shape: ShapeStyle, w: number, h: number): PathCommand[] => {
+  switch (shape.kind) {
+    case ShapeKind.ELLIPSE:
+      return ellipse(w, h);
+    case ShapeKind.LINE:
+      return [{ op: 'move', x: 0, y: h / 2 }, { op: 'line', x: w, y: h / 2 }];
+    case ShapeKind.ARROW: {
+      // Shaft is 40% of the box height; the head is as long as the box is tall, up to half the width
+      const head = Math.min(h, w / 2);
+      const top = h * 0.3;
+      const bottom = h * 0.7;
+      return polygon([[0, top], [w - head, top], [w - head, 0], [w, h / 2], [w - head, h], [w - head, bottom], [0, bottom]]);
+    }
+    case ShapeKind.BANNER: {
+      const notch = Math.min(w / 4, h / 3);
+      return polygon([[0, 0], [w, 0], [w - notch, h / 2], [w, h], [0, h], [notch, h / 2]]);
+    }
+    default: {
+      const r = Math.min(shape.cornerRadius || 0, 0.5) * Math.min(w, h);
+      return r > 0 ? roundedRect(w, h, r) : polygon([[0, 0], [w, 0], [w, h], [0, h]]);
+    }
+  }
+};
+
+export const toSvgPath = (path: PathCommand[]) => path.map(cmd => {
+  switch (cmd.op) {
+    case 'move': return `M${cmd.x} ${cmd.y}`;
+    case 'line': return `L${cmd.x} ${cmd.y}`;
+    case 'curve': return `C${cmd.x1} ${cmd.y1} ${cmd.x2} ${cmd.y2} ${cmd.x} ${cmd.y}`;
+    case 'close': return 'Z';
+  }
+}).join(' ');
+
+// Draws a shape layer as vector paths, clipped to the tile's printable area
+export const drawVectorShape = (
+  doc: jsPDF,
+  layer: Layer,
+  posterWidth: number,
+  posterHeight: number,
+  tile: TilePlacement
+) => {
+  const shape = layer.shape;
+  if (!shape) return;
+  const { destX, destY, srcX, srcY, srcW, srcH } = tile;
+  const fill = isFilledShape(shape) ? shape.fill : undefined;
+  const strokeWidth = shape.stroke ? (shape.strokeWidth || 0) * posterHeight : 0;
+  if (!fill && strokeWidth <= 0) return;
+
+  // Skip tiles the shape and its stroke can't reach
+  const bounds = getLayerBounds(layer, posterWidth, posterHeight);
+  const pad = strokeWidth / 2;
+  if (
+    bounds.maxX + pad < srcX || bounds.minX - pad > srcX + srcW ||
+    bounds.maxY + pad < srcY || bounds.minY - pad > srcY + srcH
+  ) return;
+
+  // Layer box in poster units; rotation is around its centre like the canvas renderer
+  const lw = layer.width * posterWidth;
+  const lh = layer.height * posterHeight;
+  const lx = layer.x * posterWidth;
+  const ly = layer.y * posterHeight;
+  const cx = lx + lw / 2;
+  const cy = ly + lh / 2;
+  const rad = (layer.rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  // Position within the layer box -> coordinates on this tile's page
+  const toPage = (x: number, y: number) => {
+    const dx = lx + x - cx;
+    const dy = ly + y - cy;
+    return [destX + cx + dx * cos - dy * sin - srcX, destY + cy + dx * sin + dy * cos - srcY];
+  };
+
+  doc.saveGraphicsState();
+  doc.rect(destX, destY, srcW, srcH, null);
+  doc.clip();
+  doc.discardPath();
+  doc.setGState(new GState({ opacity: layer.opacity, 'stroke-opacity': layer.opacity }));
+
+  // Colours can't be set while a path is being built
+  if (fill) doc.setFillColor(fill);
+  if (strokeWidth > 0) {
+    doc.setDrawColor(shape.stroke!);
+    doc.setLineWidth(strokeWidth);
+    doc.setLineJoin('round');
+  }
+
+  // Rotation keeps the path affine, so transforming the control points is exact
+  doc.path(getShapePath(shape, lw, lh).map(cmd => {
+    switch (cmd.op) {
+      case 'move': return { op: 'm', c: toPage(cmd.x, cmd.y) };
+      case 'line': return { op: 'l', c: toPage(cmd.x, cmd.y) };
+      case 'curve': return { op: 'c', c: [...toPage(cmd.x1, cmd.y1), ...toPage(cmd.x2, cmd.y2), ...toPage(cmd.x, cmd.y)] };
+      case 'close': return { op: 'h', c: [] };
+    }
+  }));
+  if (fill && strokeWidth > 0) {
+    doc.fillStroke();
+  } else if (fill) {
+    doc.fill();
+  } else {
+    doc.stroke();
+  }
+
+  doc.restoreGraphicsState();
+};
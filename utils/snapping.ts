@@ -0,0 +1,67 @@
+import { TileLayout } from '../types';
+import { Bounds } from './geometry';
+
+export interface SnapTargets {
+  x: number[];
+  y: number[];
+}
+
+export interface SnapGuide {
+  axis: 'x' | 'y'; // 'x' guides are vertical lines at a given x
+  position: number;
+}
+
+// Positions a dragged layer can line up with, in the same units as `scale` maps to:
+// poster edges and centre, every tile's printable edges, and the other layers' edges and centres.
+export const getSnapTargets = (layout: TileLayout, scale: number, others: Bounds[]): SnapTargets => {
+  const posterW = layout.posterWidth * scale;
+  const posterH = layout.posterHeight * scale;
+  const x = [0, posterW / 2, posterW];
+  const y = [0, posterH / 2, posterH];
+
+  for (let c = 0; c < layout.cols; c++) {
+    x.push(c * layout.stepW * scale, (c * layout.stepW + layout.printW) * scale);
+  }
+  for (let r = 0; r < layout.rows; r++) {
+    y.push(r * layout.stepH * scale, (r * layout.stepH + layout.printH) * scale);
+  }
+  others.forEach(b => {
+    x.push(b.minX, (b.minX + b.maxX) / 2, b.maxX);
+    y.push(b.minY, (b.minY + b.maxY) / 2, b.maxY);
+  });
+
+  return { x, y };
+};
+
+// Smallest shift within `threshold` that lines one of `edges` up with a target
+const snapAxis = (edges: number[], targets: number[], threshold: number) => {
+  let best = 0;
+  let bestDistance = threshold;
+  for (const edge of edges) {
+    for (const target of targets) {
+      const offset = target - edge;
+      if (Math.abs(offset) <= bestDistance) {
+        best = offset;
+        bestDistance = Math.abs(offset);
+      }
+    }
+  }
+  return best;
+};
+
+// Snaps a box's edges and centre independently on each axis. Returns the shift to apply
+// and a guide for every target the snapped box now touches.
+export const snapBounds = (bounds: Bounds, targets: SnapTargets, threshold: number) => {
+  const xs = [bounds.minX, (bounds.minX + bounds.maxX) / 2, bounds.maxX];
+  const ys = [bounds.minY, (bounds.minY + bounds.maxY) / 2, bounds.maxY];
+  const dx = snapAxis(xs, targets.x, threshold);
+  const dy = snapAxis(ys, targets.y, threshold);
+
+  const guides: SnapGuide[] = [];
+  const touches = (edges: number[], offset: number, target: number) =>
+    edges.some(edge => Math.abs(edge + offset - target) < 0.5);
+  new Set(targets.x.filter(t => touches(xs, dx, t))).forEach(position => guides.push({ axis: 'x', position }));
+  new Set(targets.y.filter(t => touches(ys, dy, t))).forEach(position => guides.push({ axis: 'y', position }));
+
+  return { dx, dy, guides };
+};
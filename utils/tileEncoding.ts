@@ -0,0 +1,40 @@
+import { ImageEncoding, PosterConfig } from '../types';
+
+// Sample grid used to classify a tile; enough to spot photos without reading every pixel
+const SAMPLE_SIZE = 96;
+// Line art, QR codes and flat diagrams use a handful of colours, photos use thousands
+const FLAT_COLOUR_LIMIT = 64;
+
+// True when the tile looks like flat colour / line art that JPEG would smear
+const isFlatContent = (canvas: HTMLCanvasElement) => {
+  const sample = document.createElement('canvas');
+  sample.width = Math.min(SAMPLE_SIZE, canvas.width);
+  sample.height = Math.min(SAMPLE_SIZE, canvas.height);
+  const ctx = sample.getContext('2d');
+  if (!ctx) return false;
+
+  // Nearest-neighbour sampling so scaling doesn't invent blended colours
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(canvas, 0, 0, sample.width, sample.height);
+  const { data } = ctx.getImageData(0, 0, sample.width, sample.height);
+
+  const colours = new Set<number>();
+  for (let i = 0; i < data.length; i += 4) {
+    colours.add((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+    if (colours.size > FLAT_COLOUR_LIMIT) return false;
+  }
+  return true;
+};
+
+// Encodes a rendered tile for jsPDF. Tiles that sit above vector text need
+// transparency, so they are always PNG whatever the configured encoding.
+export const encodeTile = (canvas: HTMLCanvasElement, config: PosterConfig, needsAlpha: boolean) => {
+  const usePng = needsAlpha
+    || config.imageEncoding === ImageEncoding.PNG
+    || (config.imageEncoding === ImageEncoding.AUTO && isFlatContent(canvas));
+
+  if (usePng) {
+    return { data: canvas.toDataURL('image/png'), format: 'PNG' as const };
+  }
+  return { data: canvas.toDataURL('image/jpeg', config.jpegQuality), format: 'JPEG' as const };
+};
@@ -0,0 +1,95 @@
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
+
+// Snapshot-based undo/redo. Every change to `present` becomes one step, except
+// while a gesture is open (e.g. a drag), which is recorded as a single step when it ends,
+// and consecutive changes made through the same field, which are merged into one step.
+// Snapshots share unchanged objects (including image data URLs), so the cap bounds
+// the number of entries rather than copies of large images.
+export const useHistory = <T>(present: T, restore: (snapshot: T) => void, limit = 50) => {
+  const pastRef = useRef<T[]>([]);
+  const futureRef = useRef<T[]>([]);
+  const committedRef = useRef(present); // last state recorded in history
+  const presentRef = useRef(present);
+  const restoringRef = useRef(false);
+  const gestureRef = useRef(false);
+  const fieldRef = useRef<unknown>(null); // field being edited, if any
+  const lastFieldRef = useRef<unknown>(null); // field that made the newest step
+  // Bumped whenever the stacks change so canUndo/canRedo re-render
+  const [, setVersion] = useState(0);
+
+  presentRef.current = present;
+
+  const commit = useCallback(() => {
+    const current = presentRef.current;
+    if (current === committedRef.current) return;
+    const field = fieldRef.current;
+    // Another change from the same field updates its step instead of adding one
+    if (field === null || field !== lastFieldRef.current) {
+      pastRef.current = [...pastRef.current, committedRef.current].slice(-limit);
+    }
+    lastFieldRef.current = field;
+    futureRef.current = [];
+    committedRef.current = current;
+    setVersion(v => v + 1);
+  }, [limit]);
+
+  useEffect(() => {
+    if (restoringRef.current) {
+      restoringRef.current = false;
+      committedRef.current = present;
+      return;
+    }
+    if (!gestureRef.current) commit();
+  }, [present, commit]);
+
+  const beginGesture = useCallback(() => {
+    gestureRef.current = true;
+  }, []);
+
+  const endGesture = useCallback(() => {
+    if (!gestureRef.current) return;
+    gestureRef.current = false;
+    commit();
+  }, [commit]);
+
+  // Called as a field starts changing the state, and with null once it loses focus
+  const setEditingField = useCallback((field: unknown) => {
+    fieldRef.current = field;
+  }, []);
+
+  const travel = useCallback((from: MutableRefObject<T[]>, to: MutableRefObject<T[]>) => {
+    if (from.current.length === 0) return;
+    const target = from.current[from.current.length - 1];
+    from.current = from.current.slice(0, -1);
+    to.current = [...to.current, presentRef.current];
+    restoringRef.current = true;
+    committedRef.current = target;
+    lastFieldRef.current = null;
+    restore(target);
+    setVersion(v => v + 1);
+  }, [restore]);
+
+  const undo = useCallback(() => travel(pastRef, futureRef), [travel]);
+  const redo = useCallback(() => travel(futureRef, pastRef), [travel]);
+
+  // Starts a fresh history, e.g. after opening another project
+  const reset = useCallback((snapshot: T) => {
+    pastRef.current = [];
+    futureRef.current = [];
+    committedRef.current = snapshot;
+    lastFieldRef.current = null;
+    restoringRef.current = true;
+    setVersion(v => v + 1);
+  }, []);
+
+  return {
+    undo,
+    redo,
+    reset,
+    beginGesture,
+    endGesture,
+    setEditingField,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+  };
+};